@@ -1,8 +1,8 @@
-import { existsSync, readdirSync, readFileSync, writeFileSync } from "node:fs";
+import { readdirSync, readFileSync } from "node:fs";
 import { dirname, join } from "node:path";
 import { fileURLToPath } from "node:url";
-import { Feed } from "feed";
 import { defineConfig } from "vitepress";
+import { generateFeeds } from "../../scripts/feed.ts";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -36,6 +36,65 @@ function getMonthlyItems() {
   }
 }
 
+// Dynamically generate sidebar items from weekly directory
+function getWeeklyItems() {
+  try {
+    const weeklyDir = join(__dirname, "../weekly");
+    return readdirSync(weeklyDir)
+      .filter((f) => /^\d{4}-W\d{2}\.md$/.test(f))
+      .sort()
+      .reverse() // Most recent first
+      .map((filename) => {
+        const [, year, week] = filename.match(/(\d{4})-W(\d{2})\.md/);
+        return {
+          text: `${year}年 第${parseInt(week, 10)}週`,
+          link: `/weekly/${filename.replace(".md", "")}`,
+        };
+      });
+  } catch (error) {
+    console.warn("Could not read weekly directory:", error);
+    return [];
+  }
+}
+
+// Dynamically generate sidebar items from the component pages
+function getComponentItems() {
+  try {
+    const componentsDir = join(__dirname, "../components");
+    return readdirSync(componentsDir)
+      .filter((f) => f.endsWith(".md") && f !== "index.md")
+      .sort()
+      .map((filename) => {
+        const content = readFileSync(join(componentsDir, filename), "utf-8");
+        const component = filename.replace(".md", "");
+        return {
+          text: content.match(/^title: (.+)$/m)?.[1] ?? component,
+          link: `/components/${component}`,
+        };
+      });
+  } catch (error) {
+    console.warn("Could not read components directory:", error);
+    return [];
+  }
+}
+
+// Sidebar items of the release pages, in the order of their index (unreleased changes first)
+function getReleaseItems() {
+  try {
+    const content = readFileSync(join(__dirname, "../releases/index.md"), "utf-8");
+    return Array.from(
+      content.matchAll(/^- \[(.+)\]\((\/releases\/[\w-]+)\)/gm),
+      ([, text, link]) => ({
+        text,
+        link,
+      }),
+    );
+  } catch (error) {
+    console.warn("Could not read the release index:", error);
+    return [];
+  }
+}
+
 export default defineConfig({
   title: "Ruby on Rails PR Digest",
   description: "Ruby on Railsの最新変更を追跡 - rails/railsのマージされたPRを自動要約",
@@ -49,6 +108,9 @@ export default defineConfig({
     nav: [
       { text: "ホーム", link: "/" },
       { text: "月別アーカイブ", link: "/monthly/" },
+      { text: "週別ダイジェスト", link: "/weekly/" },
+      { text: "コンポーネント別", link: "/components/" },
+      { text: "リリース別", link: "/releases/" },
     ],
 
     sidebar: [
@@ -56,6 +118,23 @@ export default defineConfig({
         text: "📅 月別ダイジェスト",
         items: getMonthlyItems(),
       },
+      {
+        text: "🗓️ 週別ダイジェスト",
+        link: "/weekly/",
+        collapsed: true,
+        items: getWeeklyItems(),
+      },
+      {
+        text: "🧩 コンポーネント別",
+        collapsed: true,
+        items: getComponentItems(),
+      },
+      {
+        text: "🏷️ リリース別",
+        link: "/releases/",
+        collapsed: true,
+        items: getReleaseItems(),
+      },
     ],
 
     socialLinks: [{ icon: "github", link: "https://github.com/YuheiNakasaka/rails-pr-digest" }],
@@ -126,6 +205,24 @@ export default defineConfig({
         href: "/rails-pr-digest/feed.xml",
       },
     ],
+    [
+      "link",
+      {
+        rel: "alternate",
+        type: "application/atom+xml",
+        title: "Ruby on Rails PR Digest",
+        href: "/rails-pr-digest/feed.atom",
+      },
+    ],
+    [
+      "link",
+      {
+        rel: "alternate",
+        type: "application/feed+json",
+        title: "Ruby on Rails PR Digest",
+        href: "/rails-pr-digest/feed.json",
+      },
+    ],
     ["meta", { name: "theme-color", content: "#cc0000" }],
     ["meta", { property: "og:type", content: "website" }],
     ["meta", { property: "og:locale", content: "ja" }],
@@ -142,81 +239,17 @@ export default defineConfig({
 
   // Build hooks
   async buildEnd(config) {
-    // Generate RSS feed at build time
+    // Generate the RSS, Atom and JSON feeds at build time
     const baseUrl = process.env.BASE_URL || "https://yuheinakasaka.github.io/rails-pr-digest";
-    const prDataFile = join(__dirname, "..", "pr-data.json");
-    const outputFile = join(config.outDir, "feed.xml");
-
-    if (!existsSync(prDataFile)) {
-      console.warn("PR data file not found, skipping RSS generation");
-      return;
-    }
-
     try {
-      const prData = JSON.parse(readFileSync(prDataFile, "utf-8"));
-
-      if (!prData.items || prData.items.length === 0) {
-        console.warn("No PR data available, skipping RSS generation");
-        return;
-      }
-
-      const feed = new Feed({
-        title: "Ruby on Rails PR Digest",
-        description:
-          "rails/railsリポジトリにマージされたPull RequestをAIで要約した日本語ダイジェスト",
-        id: baseUrl,
-        link: baseUrl,
-        language: "ja",
-        favicon: `${baseUrl}/favicon.ico`,
-        copyright: "Copyright © 2025 Yuhei Nakasaka",
-        updated: new Date(prData.lastUpdated),
-        generator: "Rails PR Digest RSS Generator",
-        feedLinks: {
-          rss2: `${baseUrl}/feed.xml`,
-        },
-      });
-
-      // Add PR items to feed
-      for (const pr of prData.items) {
-        const yearMonth = pr.mergedAt.substring(0, 7);
-        const itemLink = `${baseUrl}/monthly/${yearMonth}#pr-${pr.number}`;
-
-        // Convert summary to HTML
-        let htmlContent = pr.summary
-          .replace(/^### (.*?)$/gm, "<h3>$1</h3>")
-          .replace(/^## (.*?)$/gm, "<h2>$1</h2>")
-          .replace(/^# (.*?)$/gm, "<h1>$1</h1>")
-          .replace(/```(\w+)?\n([\s\S]*?)```/g, "<pre><code>$2</code></pre>")
-          .replace(/`([^`]+)`/g, "<code>$1</code>")
-          .replace(/\*\*([^*]+)\*\*/g, "<strong>$1</strong>")
-          .replace(/^- (.*?)$/gm, "<li>$1</li>")
-          .replace(/\n\n/g, "</p><p>")
-          .replace(/\n/g, "<br>");
-
-        htmlContent = `<p>${htmlContent}</p>`;
-        htmlContent = htmlContent.replace(/(<li>.*?<\/li>)+/gs, (match) => `<ul>${match}</ul>`);
-
-        feed.addItem({
-          title: `[#${pr.number}] ${pr.title}`,
-          id: pr.url,
-          link: itemLink,
-          description: pr.summary,
-          content: htmlContent,
-          author: [
-            {
-              name: `@${pr.author}`,
-              link: pr.authorUrl,
-            },
-          ],
-          date: new Date(pr.mergedAt),
-          published: new Date(pr.mergedAt),
-        });
-      }
-
-      writeFileSync(outputFile, feed.rss2(), "utf-8");
-      console.log(`RSS feed generated: ${outputFile} (${prData.items.length} items)`);
+      generateFeeds(
+        join(__dirname, "..", "pr-data.json"),
+        join(__dirname, "..", "data", "prs"),
+        config.outDir,
+        baseUrl,
+      );
     } catch (error) {
-      console.error("Error generating RSS feed:", error);
+      console.error("Error generating feeds:", error);
     }
   },
 });
@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import { classifyChange, isBreakingOrDeprecation } from "./change-types";
+import type { StructuredSummary } from "./summary-schema";
+
+const summary: StructuredSummary = {
+  overview: "Overview",
+  details: "Details",
+  impact: "Impact",
+  references: [],
+  codeSamples: [],
+  changeType: "feature",
+  breaking: false,
+};
+
+const sourceFile = { filename: "activerecord/lib/active_record/base.rb" };
+
+describe("change-types", () => {
+  describe("classifyChange", () => {
+    it("should use the change type of the summary", () => {
+      expect(classifyChange([sourceFile], [], "Title", summary)).toEqual({
+        changeType: "feature",
+        breaking: false,
+      });
+    });
+
+    it("should detect deprecations and removals from the CHANGELOG", () => {
+      expect(
+        classifyChange([sourceFile], [{ text: "*   Deprecate `Base.foo`." }], "Title", summary),
+      ).toEqual({ changeType: "deprecation", breaking: false });
+      expect(
+        classifyChange(
+          [sourceFile],
+          [{ text: "*   Remove deprecated `Base.foo`." }],
+          "Title",
+          summary,
+        ),
+      ).toEqual({ changeType: "removal", breaking: true });
+    });
+
+    it("should detect deprecation warnings added to the framework code", () => {
+      const file = {
+        ...sourceFile,
+        patch: '@@ -1 +1,2 @@\n+    ActiveRecord.deprecator.warn("foo is deprecated")',
+      };
+
+      expect(classifyChange([file], [], "Title", summary).changeType).toBe("deprecation");
+    });
+
+    it("should ignore deprecation warnings in tests", () => {
+      const file = {
+        filename: "activerecord/test/cases/base_test.rb",
+        patch: '+    ActiveRecord.deprecator.warn("foo")',
+      };
+
+      expect(classifyChange([sourceFile, file], [], "Title", summary).changeType).toBe("feature");
+    });
+
+    it("should flag changed defaults in the CHANGELOG as breaking", () => {
+      const entries = [{ text: "*   Change the default of `config.foo` to `true`." }];
+
+      expect(classifyChange([sourceFile], entries, "Title", summary).breaking).toBe(true);
+    });
+
+    it("should keep the breaking flag of the summary", () => {
+      expect(classifyChange([sourceFile], [], "Title", { ...summary, breaking: true })).toEqual({
+        changeType: "feature",
+        breaking: true,
+      });
+    });
+
+    it("should classify PRs by their files when they touch only docs or tests", () => {
+      const guide = { filename: "guides/source/testing.md" };
+      const test = { filename: "actionpack/test/controller/base_test.rb" };
+
+      expect(classifyChange([guide], [], "Title", summary).changeType).toBe("docs");
+      expect(
+        classifyChange([test, { filename: "Gemfile.lock" }], [], "Title", summary).changeType,
+      ).toBe("internal");
+    });
+
+    it("should fall back to the title for plain Markdown summaries", () => {
+      expect(classifyChange([], [], "Fix N+1 queries in has_many", "Summary").changeType).toBe(
+        "bugfix",
+      );
+      expect(classifyChange([], [], "Add `Date#foo`", "Summary").changeType).toBe("feature");
+      expect(classifyChange([], [], "Remove deprecated `foo`", "Summary")).toEqual({
+        changeType: "removal",
+        breaking: true,
+      });
+      expect(classifyChange([], [], "Bump version", "Summary").changeType).toBe("internal");
+    });
+  });
+
+  describe("isBreakingOrDeprecation", () => {
+    it("should include breaking changes and deprecations only", () => {
+      expect(isBreakingOrDeprecation({ changeType: "feature", breaking: true })).toBe(true);
+      expect(isBreakingOrDeprecation({ changeType: "deprecation", breaking: false })).toBe(true);
+      expect(isBreakingOrDeprecation({ changeType: "bugfix", breaking: false })).toBe(false);
+    });
+  });
+});
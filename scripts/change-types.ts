@@ -0,0 +1,125 @@
+import type { ChangelogEntry, PRFile } from "./github-client";
+import type { Summary } from "./summary-schema";
+
+// Kinds of change, with their labels on the pages
+export const CHANGE_TYPES = {
+  feature: "新機能",
+  bugfix: "バグ修正",
+  deprecation: "非推奨化",
+  removal: "削除",
+  performance: "パフォーマンス",
+  docs: "ドキュメント",
+  internal: "内部変更",
+} as const;
+
+export type ChangeType = keyof typeof CHANGE_TYPES;
+
+export const CHANGE_TYPE_KEYS = Object.keys(CHANGE_TYPES) as ChangeType[];
+
+export interface ChangeClassification {
+  changeType: ChangeType;
+  // Whether upgrading apps may need changes (removed behavior, changed defaults, ...)
+  breaking: boolean;
+}
+
+export function isChangeType(value: string): value is ChangeType {
+  return Object.hasOwn(CHANGE_TYPES, value);
+}
+
+/**
+ * Get the label of a change type, e.g., deprecation → 非推奨化
+ */
+export function getChangeTypeName(changeType: ChangeType): string {
+  return CHANGE_TYPES[changeType];
+}
+
+/**
+ * Whether a change belongs in the breaking changes section of the monthly pages:
+ * breaking changes (removals included) and deprecations
+ */
+export function isBreakingOrDeprecation({ changeType, breaking }: ChangeClassification): boolean {
+  return breaking || changeType === "deprecation";
+}
+
+const REMOVAL_PATTERN =
+  /\bremoved?\b.*\bdeprecated\b|\bdeprecated\b.*\b(?:has been|was) removed\b/i;
+const DEPRECATION_PATTERN = /\bdeprecat(?:e|es|ed|ion)\b/i;
+const BREAKING_PATTERN =
+  /\bbreaking change\b|\bchange[sd]? the default\b|\bdefault (?:value )?(?:is|has been|was) changed\b|\bnew framework defaults?\b/i;
+// Deprecation warnings emitted by the framework code itself
+const DEPRECATOR_PATTERN = /\bdeprecator\.warn\b|\bActiveSupport::Deprecation\.warn\b/;
+
+const DOCS_FILE_PATTERN = /^guides\/|\.(?:md|rdoc)$/;
+const INTERNAL_FILE_PATTERN =
+  /(^|\/)test\/|_test\.rb$|^\.github\/|^tools\/|^ci\/|^Gemfile(?:\.lock)?$|^\.rubocop/;
+
+// Fallback for summaries without a change type (written before the classification)
+const TITLE_PATTERNS: [RegExp, ChangeType][] = [
+  [/\bremove deprecated\b/i, "removal"],
+  [DEPRECATION_PATTERN, "deprecation"],
+  [/\b(?:perf(?:ormance)?|speed up|faster|optimi[sz]e|allocations?)\b/i, "performance"],
+  [/\b(?:fix(?:es|ed)?|bug|regression)\b/i, "bugfix"],
+  [/^(?:add|allow|introduce|support|implement)\b/i, "feature"],
+  [/\b(?:docs?|documentation|guides?|typo)\b/i, "docs"],
+];
+
+/**
+ * Whether a file is documentation: guides, Markdown and RDoc files
+ */
+export function isDocsFile(filename: string): boolean {
+  return DOCS_FILE_PATTERN.test(filename);
+}
+
+/**
+ * Whether a file only matters to Rails' own development: tests, CI and tooling
+ */
+export function isInternalFile(filename: string): boolean {
+  return INTERNAL_FILE_PATTERN.test(filename);
+}
+
+/**
+ * Guess the change type from a PR title, e.g., "Fix ..." → bugfix
+ */
+export function classifyTitle(title: string): ChangeType {
+  return TITLE_PATTERNS.find(([pattern]) => pattern.test(title))?.[1] ?? "internal";
+}
+
+/**
+ * Classify a PR's change from its CHANGELOG additions, its diff and the type given by the model.
+ * CHANGELOG and diff evidence of deprecations and removals wins over the model, since those
+ * are the changes readers must not miss; PRs touching only docs or tests are classified by
+ * their files. Summaries without a type (older pages) fall back to the PR title.
+ */
+export function classifyChange(
+  files: Pick<PRFile, "filename" | "patch">[],
+  changelogEntries: Pick<ChangelogEntry, "text">[],
+  title: string,
+  summary: Summary,
+): ChangeClassification {
+  const changelog = changelogEntries.map((entry) => entry.text).join("\n");
+  const summarized = typeof summary === "string" ? null : summary;
+  const breaking = (summarized?.breaking ?? false) || BREAKING_PATTERN.test(changelog);
+
+  const addedLines = files
+    .filter((f) => !isInternalFile(f.filename ?? ""))
+    .flatMap((f) => (f.patch ?? "").split("\n"))
+    .filter((line) => line.startsWith("+") && !line.startsWith("+++"))
+    .join("\n");
+
+  let changeType: ChangeType;
+  if (REMOVAL_PATTERN.test(changelog)) {
+    changeType = "removal";
+  } else if (DEPRECATION_PATTERN.test(changelog) || DEPRECATOR_PATTERN.test(addedLines)) {
+    changeType = "deprecation";
+  } else if (files.length > 0 && files.every((f) => isDocsFile(f.filename ?? ""))) {
+    changeType = "docs";
+  } else if (files.length > 0 && files.every((f) => isInternalFile(f.filename ?? ""))) {
+    changeType = "internal";
+  } else if (summarized) {
+    changeType = summarized.changeType;
+  } else {
+    changeType = classifyTitle(title);
+  }
+
+  return { changeType, breaking: breaking || changeType === "removal" };
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { FenceTracker, fenceFor } from "./code-blocks";
+
+function codeLines(lines: string[]): boolean[] {
+  const tracker = new FenceTracker();
+  return lines.map((line) => tracker.isCode(line));
+}
+
+describe("code-blocks", () => {
+  describe("fenceFor", () => {
+    it("should use a fence longer than any backtick run in the content", () => {
+      expect(fenceFor("puts 1")).toBe("```");
+      expect(fenceFor("```ruby\nputs 1\n```")).toBe("````");
+    });
+  });
+
+  describe("FenceTracker", () => {
+    it("should count the fences and the lines between them as code", () => {
+      expect(codeLines(["text", "```ruby", "code", "```", "text"])).toEqual([
+        false,
+        true,
+        true,
+        true,
+        false,
+      ]);
+    });
+
+    it("should only close a fence with the same character, at least as long, alone on its line", () => {
+      expect(codeLines(["````", "```", "~~~~", "```` end", "`````", "text"])).toEqual([
+        true,
+        true,
+        true,
+        true,
+        true,
+        false,
+      ]);
+    });
+
+    it("should close the open code block on reset", () => {
+      const tracker = new FenceTracker();
+      tracker.isCode("```");
+      tracker.reset();
+
+      expect(tracker.isCode("text")).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,48 @@
+// Opening or closing line of a fenced code block, e.g., ```ruby
+const FENCE_PATTERN = /^\s{0,3}(`{3,}|~{3,})/;
+
+/**
+ * Pick a code fence longer than any backtick run in the content
+ */
+export function fenceFor(content: string): string {
+  const longest = Math.max(0, ...Array.from(content.matchAll(/`+/g), (m) => m[0].length));
+  return "`".repeat(Math.max(3, longest + 1));
+}
+
+/**
+ * Follow the fenced code blocks of Markdown text, one line at a time
+ */
+export class FenceTracker {
+  private fence: string | null = null;
+
+  /**
+   * Read the next line: returns whether it is part of a code block, its fences included
+   */
+  isCode(line: string): boolean {
+    const fenceMatch = line.match(FENCE_PATTERN);
+    if (this.fence) {
+      // A fence closes with the same character, at least as long, and nothing else on the line
+      if (
+        fenceMatch &&
+        fenceMatch[1][0] === this.fence[0] &&
+        fenceMatch[1].length >= this.fence.length &&
+        line.trim() === fenceMatch[1]
+      ) {
+        this.fence = null;
+      }
+      return true;
+    }
+    if (fenceMatch) {
+      this.fence = fenceMatch[1];
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Close the open code block, if any
+   */
+  reset(): void {
+    this.fence = null;
+  }
+}
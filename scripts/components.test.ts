@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { classifyComponents, getComponentName, isRailsComponent } from "./components";
+
+describe("components", () => {
+  describe("classifyComponents", () => {
+    it("should derive components from the top-level directories of changed files", () => {
+      const files = [
+        { filename: "activerecord/lib/active_record/base.rb" },
+        { filename: "activerecord/test/cases/base_test.rb" },
+        { filename: "actionpack/lib/action_controller.rb" },
+        { filename: "guides/source/routing.md" },
+      ];
+
+      expect(classifyComponents(files, [])).toEqual(["actionpack", "activerecord"]);
+    });
+
+    it("should add components from framework labels", () => {
+      expect(classifyComponents([], ["ActiveSupport", "docs", "railties"])).toEqual([
+        "activesupport",
+        "railties",
+      ]);
+    });
+
+    it("should return empty array when no framework is touched", () => {
+      expect(classifyComponents([{ filename: ".github/workflows/ci.yml" }], [])).toEqual([]);
+    });
+  });
+
+  describe("isRailsComponent", () => {
+    it("should only accept framework keys", () => {
+      expect(isRailsComponent("activerecord")).toBe(true);
+      expect(isRailsComponent("guides")).toBe(false);
+      expect(isRailsComponent("toString")).toBe(false);
+    });
+  });
+
+  describe("getComponentName", () => {
+    it("should return the display name", () => {
+      expect(getComponentName("activerecord")).toBe("Active Record");
+    });
+  });
+});
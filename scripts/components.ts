@@ -0,0 +1,60 @@
+import type { PRFile } from "./github-client";
+
+// Rails frameworks, keyed by their directory (and GitHub label) in rails/rails
+export const RAILS_COMPONENTS = {
+  actioncable: "Action Cable",
+  actionmailbox: "Action Mailbox",
+  actionmailer: "Action Mailer",
+  actionpack: "Action Pack",
+  actiontext: "Action Text",
+  actionview: "Action View",
+  activejob: "Active Job",
+  activemodel: "Active Model",
+  activerecord: "Active Record",
+  activestorage: "Active Storage",
+  activesupport: "Active Support",
+  railties: "Railties",
+} as const;
+
+export type RailsComponent = keyof typeof RAILS_COMPONENTS;
+
+export const COMPONENT_KEYS = Object.keys(RAILS_COMPONENTS) as RailsComponent[];
+
+export function isRailsComponent(value: string): value is RailsComponent {
+  return Object.hasOwn(RAILS_COMPONENTS, value);
+}
+
+/**
+ * Get the display name of a component, e.g., activerecord → Active Record
+ */
+export function getComponentName(component: RailsComponent): string {
+  return RAILS_COMPONENTS[component];
+}
+
+/**
+ * Classify a PR by the frameworks it touches: the top-level directories of its changed files
+ * plus its framework labels. Files outside the frameworks (guides, tools, CI) are ignored.
+ */
+export function classifyComponents(
+  files: Pick<PRFile, "filename">[],
+  labels: string[],
+): RailsComponent[] {
+  const components = new Set<RailsComponent>();
+
+  for (const file of files) {
+    const directory = file.filename?.split("/")[0] ?? "";
+    if (isRailsComponent(directory)) {
+      components.add(directory);
+    }
+  }
+
+  for (const label of labels) {
+    const name = label.toLowerCase();
+    if (isRailsComponent(name)) {
+      components.add(name);
+    }
+  }
+
+  // Keep the order of RAILS_COMPONENTS so entries list them consistently
+  return COMPONENT_KEYS.filter((c) => components.has(c));
+}
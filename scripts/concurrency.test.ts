@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { createLimiter } from "./concurrency";
+
+function deferred() {
+  let resolve: () => void = () => {};
+  const promise = new Promise<void>((r) => {
+    resolve = r;
+  });
+  return { promise, resolve };
+}
+
+describe("createLimiter", () => {
+  it("should run at most the given number of tasks at a time", async () => {
+    const limit = createLimiter(2);
+    const tasks = Array.from({ length: 5 }, () => deferred());
+    let running = 0;
+    let maxRunning = 0;
+
+    const results = Promise.all(
+      tasks.map((task, i) =>
+        limit(async () => {
+          running++;
+          maxRunning = Math.max(maxRunning, running);
+          await task.promise;
+          running--;
+          return i;
+        }),
+      ),
+    );
+
+    for (const task of tasks) {
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      task.resolve();
+    }
+
+    expect(await results).toEqual([0, 1, 2, 3, 4]);
+    expect(maxRunning).toBe(2);
+  });
+
+  it("should hand a finished task's slot to the waiting task before new callers", async () => {
+    const limit = createLimiter(1);
+    const firstTask = deferred();
+    let running = 0;
+    let maxRunning = 0;
+    const track = async () => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      running--;
+    };
+
+    const first = limit(() => firstTask.promise);
+    const second = limit(track);
+    // Arrives between the end of the first task and the start of the waiting one
+    const third = firstTask.promise.then(() => limit(track));
+    firstTask.resolve();
+
+    await Promise.all([first, second, third]);
+    expect(maxRunning).toBe(1);
+  });
+
+  it("should start the next task when one fails", async () => {
+    const limit = createLimiter(1);
+
+    const failed = limit(() => Promise.reject(new Error("Task failed")));
+    const next = limit(async () => "ok");
+
+    await expect(failed).rejects.toThrow("Task failed");
+    await expect(next).resolves.toBe("ok");
+  });
+
+  it("should reject invalid concurrency", () => {
+    expect(() => createLimiter(0)).toThrow("Concurrency must be a positive integer");
+  });
+});
@@ -0,0 +1,38 @@
+export type Limiter = <T>(task: () => Promise<T>) => Promise<T>;
+
+/**
+ * Create a limiter that runs at most `concurrency` tasks at a time; the others wait in FIFO order
+ */
+export function createLimiter(concurrency: number): Limiter {
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error(`Concurrency must be a positive integer (got ${concurrency})`);
+  }
+
+  let running = 0;
+  const queue: (() => void)[] = [];
+
+  // A finished task hands its slot straight to the next waiting task, so a caller arriving
+  // before that task resumes cannot take the slot too
+  const release = () => {
+    const next = queue.shift();
+    if (next) {
+      next();
+    } else {
+      running--;
+    }
+  };
+
+  return async <T>(task: () => Promise<T>): Promise<T> => {
+    if (running >= concurrency) {
+      await new Promise<void>((resolve) => queue.push(resolve));
+    } else {
+      running++;
+    }
+
+    try {
+      return await task();
+    } finally {
+      release();
+    }
+  };
+}
@@ -0,0 +1,48 @@
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { loadEnv } from "vitepress";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+// Configuration shared by the command line scripts
+export const env = loadEnv("", process.cwd(), "");
+export const RAILS_OWNER = "rails";
+export const RAILS_REPO = "rails";
+export const GITHUB_TOKEN = env.GITHUB_TOKEN;
+export const OPENAI_API_KEY = env.OPENAI_API_KEY;
+export const DOCS_DIR = join(__dirname, "..", "docs", "monthly");
+export const INDEX_FILE = join(__dirname, "..", "docs", "monthly-index.json");
+export const PR_STORE_DIR = join(__dirname, "..", "docs", "data", "prs");
+export const RETRY_QUEUE_FILE = join(__dirname, "..", "docs", "data", "retry-queue.json");
+// Local cache of generated summaries (not committed)
+export const SUMMARY_CACHE_DIR = join(__dirname, "..", ".cache", "summaries");
+export const USAGE_LOG_FILE = join(__dirname, "..", "docs", "data", "usage-log.ndjson");
+// Attempts per PR before it is left in the retry queue for manual re-summarization
+export const MAX_SUMMARY_ATTEMPTS = Number.parseInt(env.MAX_SUMMARY_ATTEMPTS || "3", 10);
+// Number of PRs fetched from GitHub / summarized by OpenAI at the same time
+export const GITHUB_CONCURRENCY = Number.parseInt(env.GITHUB_CONCURRENCY ?? "4", 10);
+export const OPENAI_CONCURRENCY = Number.parseInt(env.OPENAI_CONCURRENCY ?? "4", 10);
+// Summarizer backend: "openai", "openai-compatible" (e.g., a local llama.cpp/Ollama server) or "fake"
+export const SUMMARIZER = env.SUMMARIZER ?? "openai";
+export const SUMMARIZER_MODEL = env.SUMMARIZER_MODEL || undefined;
+export const SUMMARIZER_BASE_URL = env.SUMMARIZER_BASE_URL || undefined;
+// Handling of trivial PRs (docs/tests only, tiny diffs, bots): "summarize", "template", "compact" or "skip"
+export const TRIVIAL_PR_MODE = env.TRIVIAL_PR_MODE ?? "compact";
+// PRs changing at most this many lines are trivial
+export const TRIVIAL_PR_MAX_LINES = Number.parseInt(env.TRIVIAL_PR_MAX_LINES || "3", 10);
+// Summarization stops once the month's estimated spend reaches this many USD (unset: no cap)
+export const MONTHLY_BUDGET_USD = env.MONTHLY_BUDGET_USD
+  ? Number.parseFloat(env.MONTHLY_BUDGET_USD)
+  : undefined;
+// Number of PRs in the site and component feeds (older PRs are in the archive feeds)
+export const FEED_ITEM_LIMIT = Number.parseInt(env.FEED_ITEM_LIMIT || "50", 10);
+// LLM-written overviews of the weekly pages
+export const WEEKLY_OVERVIEWS_FILE = join(__dirname, "..", "docs", "data", "weekly-overviews.json");
+// Releases of rails/rails, for the release pages
+export const RELEASES_FILE = join(__dirname, "..", "docs", "data", "releases.json");
+// Records collected before the base branch was stored get it fetched, this many per run
+export const BASE_BRANCH_BACKFILL_LIMIT = Number.parseInt(
+  env.BASE_BRANCH_BACKFILL_LIMIT ?? "100",
+  10,
+);
@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest";
+import { estimateTokens, formatDiffs, getFilePriority, truncatePatch } from "./diff";
+
+function patchOf(lines: number, prefix = "+line"): string {
+  return ["@@ -1,0 +1,1 @@", ...Array.from({ length: lines }, (_, i) => `${prefix} ${i}`)].join(
+    "\n",
+  );
+}
+
+describe("diff", () => {
+  describe("getFilePriority", () => {
+    it("should put framework source before tests and CHANGELOGs", () => {
+      const lib = getFilePriority("activerecord/lib/active_record/base.rb");
+      const other = getFilePriority("Gemfile");
+      const guide = getFilePriority("guides/source/routing.md");
+      const test = getFilePriority("activerecord/test/cases/base_test.rb");
+      const changelog = getFilePriority("activerecord/CHANGELOG.md");
+
+      expect([lib, other, guide, test, changelog]).toEqual([0, 1, 2, 3, 4]);
+    });
+  });
+
+  describe("truncatePatch", () => {
+    it("should keep patches within the limit as-is", () => {
+      const patch = patchOf(3);
+      expect(truncatePatch(patch, 1000)).toBe(patch);
+    });
+
+    it("should cut long patches at a line boundary and count omitted lines", () => {
+      const patch = patchOf(100);
+
+      const truncated = truncatePatch(patch, 50);
+
+      expect(estimateTokens(truncated)).toBeLessThanOrEqual(60);
+      const keptLines = truncated.split("\n").slice(0, -1);
+      expect(patch.startsWith(keptLines.join("\n"))).toBe(true);
+      expect(truncated).toContain(`(${101 - keptLines.length} 行省略)`);
+    });
+
+    it("should keep later hunks whole when the first hunk does not fit", () => {
+      const large = patchOf(100);
+      const small = "@@ -200,1 +200,1 @@\n-old\n+new";
+
+      const truncated = truncatePatch(`${large}\n${small}`, 50);
+
+      expect(estimateTokens(truncated)).toBeLessThanOrEqual(60);
+      expect(truncated).toContain(small);
+      expect(truncated.startsWith("@@ -1,0 +1,1 @@\n+line 0\n")).toBe(true);
+      const [head] = truncated.split("\n... (");
+      const keptLines = head.split("\n").length;
+      expect(truncated).toContain(`\n... (${101 - keptLines} 行省略)\n${small}`);
+    });
+
+    it("should count the lines of each omitted gap", () => {
+      const small = (line: number) => `@@ -${line},1 +${line},1 @@\n-old\n+new`;
+      const patch = [small(1), patchOf(100), small(300), patchOf(100), small(500)].join("\n");
+
+      const truncated = truncatePatch(patch, 50);
+
+      expect(truncated.split("\n").filter((line) => line.startsWith("..."))).toHaveLength(2);
+      expect(truncated).toContain(`${small(1)}\n`);
+      expect(truncated).toContain("... (101 行省略)");
+      expect(truncated).toContain(small(500));
+    });
+
+    it("should not end with a hunk header", () => {
+      const patch = `${patchOf(1)}\n@@ -10,0 +10,1 @@\n+${"x".repeat(400)}`;
+
+      const truncated = truncatePatch(patch, 20);
+
+      expect(truncated).not.toContain("@@ -10");
+    });
+  });
+
+  describe("formatDiffs", () => {
+    it("should order patches by priority", () => {
+      const result = formatDiffs([
+        { filename: "actionpack/CHANGELOG.md", additions: 1, deletions: 0, patch: patchOf(1) },
+        { filename: "actionpack/test/foo_test.rb", additions: 1, deletions: 0, patch: patchOf(1) },
+        { filename: "actionpack/lib/foo.rb", additions: 1, deletions: 0, patch: patchOf(1) },
+      ]);
+
+      const order = ["lib/foo.rb", "test/foo_test.rb", "CHANGELOG.md"].map((name) =>
+        result.indexOf(name),
+      );
+      expect(order).toEqual([...order].sort((a, b) => a - b));
+      expect(result).toContain("### actionpack/lib/foo.rb (+1/-0)\n```diff\n@@");
+    });
+
+    it("should list files that do not fit the budget", () => {
+      const result = formatDiffs(
+        [
+          { filename: "lib/a.rb", additions: 200, deletions: 0, patch: patchOf(200) },
+          { filename: "test/a_test.rb", additions: 200, deletions: 0, patch: patchOf(200) },
+        ],
+        { totalTokens: 500, perFileTokens: 450 },
+      );
+
+      expect(result).toContain("### lib/a.rb");
+      expect(result).not.toContain("### test/a_test.rb");
+      expect(result).toContain("差分を省略したファイル:\n- test/a_test.rb");
+    });
+
+    it("should note files without a patch", () => {
+      const result = formatDiffs([{ filename: "image.png", additions: 0, deletions: 0 }]);
+
+      expect(result).toContain("- image.png (差分なし)");
+    });
+
+    it("should use a longer fence when the patch contains backticks", () => {
+      const result = formatDiffs([
+        { filename: "README.md", additions: 1, deletions: 0, patch: "+```ruby" },
+      ]);
+
+      expect(result).toContain("````diff\n+```ruby\n````");
+    });
+  });
+});
@@ -0,0 +1,165 @@
+import { fenceFor } from "./code-blocks";
+import type { PRFile } from "./github-client";
+
+export interface DiffBudget {
+  // Total tokens for all patches in the prompt
+  totalTokens: number;
+  // Tokens for a single file, so one large file cannot crowd out the others
+  perFileTokens: number;
+}
+
+export const DEFAULT_DIFF_BUDGET: DiffBudget = {
+  totalTokens: 12000,
+  perFileTokens: 3000,
+};
+
+// Files that cannot get at least this many tokens are listed as omitted instead
+const MIN_FILE_TOKENS = 100;
+const MAX_OMITTED_LISTED = 20;
+
+// Rough ratio for code
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Rough token count of a text
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Priority of a file's patch in the prompt (lower comes first):
+ * framework source, then other files, documentation, tests and finally CHANGELOGs
+ */
+export function getFilePriority(filename: string): number {
+  if (/(^|\/)CHANGELOG\.md$/.test(filename)) return 4;
+  if (/(^|\/)test\/|_test\.rb$|(^|\/)spec\//.test(filename)) return 3;
+  if (/^guides\/|\.md$/.test(filename)) return 2;
+  if (/(^|\/)(lib|app)\//.test(filename)) return 0;
+  return 1;
+}
+
+/**
+ * Split a patch into hunks, each starting with its @@ header
+ */
+function splitHunks(patch: string): string[][] {
+  const hunks: string[][] = [];
+  for (const line of patch.split("\n")) {
+    if (line.startsWith("@@") || hunks.length === 0) {
+      hunks.push([line]);
+    } else {
+      hunks[hunks.length - 1].push(line);
+    }
+  }
+  return hunks;
+}
+
+function linesLength(lines: string[]): number {
+  return lines.reduce((length, line) => length + line.length + 1, 0);
+}
+
+/**
+ * Truncate a patch to the token limit, keeping whole hunks where possible: hunks that fit are
+ * kept in full (a large hunk does not crowd out the smaller ones after it), then the first hunk
+ * that did not fit is cut at a line boundary. Omitted lines are counted where they were left out.
+ */
+export function truncatePatch(patch: string, maxTokens: number): string {
+  if (estimateTokens(patch) <= maxTokens) {
+    return patch;
+  }
+
+  const maxLength = maxTokens * CHARS_PER_TOKEN;
+  const hunks = splitHunks(patch);
+  // Number of leading lines kept of each hunk
+  const kept = hunks.map(() => 0);
+  let length = 0;
+  let cutHunk = -1;
+  hunks.forEach((hunk, i) => {
+    const hunkLength = linesLength(hunk);
+    if (length + hunkLength <= maxLength) {
+      kept[i] = hunk.length;
+      length += hunkLength;
+    } else if (cutHunk === -1) {
+      cutHunk = i;
+    }
+  });
+
+  if (cutHunk !== -1) {
+    for (const line of hunks[cutHunk]) {
+      if (length + line.length + 1 > maxLength) break;
+      kept[cutHunk]++;
+      length += line.length + 1;
+    }
+    // Drop a dangling hunk header that has no lines of its own
+    if (kept[cutHunk] === 1 && hunks[cutHunk][0].startsWith("@@")) {
+      kept[cutHunk] = 0;
+    }
+  }
+
+  const lines: string[] = [];
+  let omitted = 0;
+  hunks.forEach((hunk, i) => {
+    if (kept[i] > 0 && omitted > 0) {
+      lines.push(`... (${omitted} 行省略)`);
+      omitted = 0;
+    }
+    lines.push(...hunk.slice(0, kept[i]));
+    omitted += hunk.length - kept[i];
+  });
+  if (omitted > 0) {
+    lines.push(`... (${omitted} 行省略)`);
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Format the patches of a PR's files for the prompt, within the token budget.
+ * Files are ordered by priority (source first); files that do not fit are listed by name.
+ */
+export function formatDiffs(files: PRFile[], budget: DiffBudget = DEFAULT_DIFF_BUDGET): string {
+  const sortedFiles = files
+    .map((file, index) => ({ file, index }))
+    .sort(
+      (a, b) =>
+        getFilePriority(a.file.filename ?? "") - getFilePriority(b.file.filename ?? "") ||
+        a.index - b.index,
+    )
+    .map(({ file }) => file);
+
+  const sections: string[] = [];
+  const omitted: string[] = [];
+  let remaining = budget.totalTokens;
+
+  for (const file of sortedFiles) {
+    const filename = file.filename ?? "unknown";
+    // GitHub leaves out the patch for binary and very large files
+    if (!file.patch) {
+      omitted.push(`${filename} (差分なし)`);
+      continue;
+    }
+
+    const limit = Math.min(budget.perFileTokens, remaining);
+    if (limit < MIN_FILE_TOKENS) {
+      omitted.push(filename);
+      continue;
+    }
+
+    const patch = truncatePatch(file.patch, limit);
+    const fence = fenceFor(patch);
+    sections.push(
+      `### ${filename} (+${file.additions}/-${file.deletions})\n${fence}diff\n${patch}\n${fence}`,
+    );
+    remaining -= estimateTokens(patch);
+  }
+
+  if (omitted.length > 0) {
+    const listed = omitted.slice(0, MAX_OMITTED_LISTED).map((name) => `- ${name}`);
+    if (omitted.length > MAX_OMITTED_LISTED) {
+      listed.push(`... 他 ${omitted.length - MAX_OMITTED_LISTED} ファイル`);
+    }
+    sections.push(`差分を省略したファイル:\n${listed.join("\n")}`);
+  }
+
+  return sections.join("\n\n");
+}
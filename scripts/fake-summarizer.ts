@@ -0,0 +1,42 @@
+import { CHANGE_TYPE_KEYS, getChangeTypeName } from "./change-types";
+import type { PRDetails } from "./github-client";
+import type { Summarizer, SummaryResult, WeeklyOverviewResult, WeeklyPR } from "./summarizer";
+import type { StructuredSummary } from "./summary-schema";
+
+/**
+ * Deterministic summarizer for tests and offline runs: the summary is built from the PR itself
+ */
+export class FakeSummarizer implements Summarizer {
+  async summarizePR(prData: PRDetails): Promise<SummaryResult> {
+    const { pr, files } = prData;
+
+    const summary: StructuredSummary = {
+      overview: `${pr.title} (#${pr.number})`,
+      details:
+        files
+          .map((f) => `- ${f.filename ?? "unknown"} (+${f.additions}/-${f.deletions})`)
+          .join("\n") || "変更ファイルなし",
+      impact: "このサマリーはテスト用に生成されたものです。",
+      references: [pr.html_url],
+      codeSamples: [],
+      changeType: "internal",
+      breaking: false,
+    };
+
+    return { ok: true, summary };
+  }
+
+  async summarizeWeek(_weekKey: string, prs: WeeklyPR[]): Promise<WeeklyOverviewResult> {
+    const counts = CHANGE_TYPE_KEYS.flatMap((changeType) => {
+      const count = prs.filter((pr) => pr.changeType === changeType).length;
+      return count > 0 ? [`${getChangeTypeName(changeType)} ${count}件`] : [];
+    });
+    const breaking = prs.filter((pr) => pr.breaking).map((pr) => `#${pr.number}`);
+
+    const lines = [`- ${prs.length}件のPRがマージされました（${counts.join("、")}）`];
+    if (breaking.length > 0) {
+      lines.push(`- 破壊的変更: ${breaking.join(", ")}`);
+    }
+    return { ok: true, overview: lines.join("\n") };
+  }
+}
@@ -0,0 +1,342 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  addArchiveLinks,
+  createFeed,
+  generateFeeds,
+  getFeedArchives,
+  getFeedUrl,
+  renderSummaryHTML,
+} from "./feed";
+import type { PRData, PRDataStore } from "./file-manager";
+import { PRStore } from "./pr-store";
+import { createRecord } from "./test-fixtures";
+
+vi.mock("node:fs");
+
+const BASE_URL = "https://example.com/rails-pr-digest";
+
+const pr: PRData = {
+  number: 12345,
+  title: "Add feature X",
+  url: "https://github.com/rails/rails/pull/12345",
+  mergedAt: "2025-01-15T10:00:00Z",
+  author: "testuser",
+  authorUrl: "https://github.com/testuser",
+  components: ["activerecord"],
+  summary:
+    "### 概要\n`where` に **新しい** オプションを追加\n\n### 変更されたファイル\n- activerecord/lib/relation.rb\n- activerecord/test/relation_test.rb\n\n### 使用例\n```ruby\nPost.where(id: 1)\n```",
+};
+
+const metadata = {
+  id: BASE_URL,
+  title: "Ruby on Rails PR Digest",
+  description: "digest",
+  path: "/feed",
+};
+
+describe("feed", () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  describe("renderSummaryHTML", () => {
+    it("should render headings, inline code, emphasis and lists", () => {
+      const html = renderSummaryHTML(pr.summary);
+
+      expect(html).toContain("<h3>概要</h3>");
+      expect(html).toContain("<code>where</code>");
+      expect(html).toContain("<strong>新しい</strong>");
+      expect(html).toContain(
+        "<ul>\n<li>activerecord/lib/relation.rb</li>\n<li>activerecord/test/relation_test.rb</li>\n</ul>",
+      );
+    });
+
+    it("should keep code blocks as they are", () => {
+      const html = renderSummaryHTML("```ruby\n# **not bold**\nPost.where(id: 1)\n```");
+
+      expect(html).toBe(
+        '<pre><code class="language-ruby"># **not bold**\nPost.where(id: 1)\n</code></pre>\n',
+      );
+    });
+
+    it("should escape raw HTML", () => {
+      const html = renderSummaryHTML("<script>alert(1)</script> と `<div>` タグ");
+
+      expect(html).not.toContain("<script>");
+      expect(html).toContain("&lt;script&gt;");
+      expect(html).toContain("<code>&lt;div&gt;</code>");
+    });
+  });
+
+  describe("getFeedUrl", () => {
+    it("should add the extension of the format", () => {
+      expect(getFeedUrl(BASE_URL, "/feeds/activerecord", "rss")).toBe(
+        `${BASE_URL}/feeds/activerecord.xml`,
+      );
+      expect(getFeedUrl(BASE_URL, "/feed", "atom")).toBe(`${BASE_URL}/feed.atom`);
+      expect(getFeedUrl(BASE_URL, "/feed", "json")).toBe(`${BASE_URL}/feed.json`);
+    });
+  });
+
+  describe("createFeed", () => {
+    it("should render the same items as RSS 2.0", () => {
+      const rss = createFeed(BASE_URL, "2025-01-16T00:00:00Z", [pr], metadata).rss2();
+
+      expect(rss).toContain('<rss version="2.0"');
+      expect(rss).toContain("<title><![CDATA[[#12345] Add feature X]]></title>");
+      expect(rss).toContain(`<link>${BASE_URL}/monthly/2025-01#pr-12345</link>`);
+      expect(rss).toContain("<guid>https://github.com/rails/rails/pull/12345</guid>");
+      expect(rss).toContain("<content:encoded><![CDATA[<h3>概要</h3>");
+      expect(rss).toContain(`<atom:link href="${BASE_URL}/feed.xml" rel="self"`);
+    });
+
+    it("should render the same items as Atom", () => {
+      const atom = createFeed(BASE_URL, "2025-01-16T00:00:00Z", [pr], metadata).atom1();
+
+      expect(atom).toContain('<feed xmlns="http://www.w3.org/2005/Atom">');
+      expect(atom).toContain(`<link rel="self" href="${BASE_URL}/feed.atom"/>`);
+      expect(atom).toContain("<id>https://github.com/rails/rails/pull/12345</id>");
+      expect(atom).toContain(`<link href="${BASE_URL}/monthly/2025-01#pr-12345"/>`);
+      expect(atom).toContain("<name>@testuser</name>");
+      expect(atom).toContain('<content type="html"><![CDATA[<h3>概要</h3>');
+    });
+
+    it("should render the same items as JSON Feed", () => {
+      const json = JSON.parse(createFeed(BASE_URL, "2025-01-16T00:00:00Z", [pr], metadata).json1());
+
+      expect(json.version).toBe("https://jsonfeed.org/version/1");
+      expect(json.feed_url).toBe(`${BASE_URL}/feed.json`);
+      expect(json.items).toEqual([
+        expect.objectContaining({
+          id: pr.url,
+          url: `${BASE_URL}/monthly/2025-01#pr-12345`,
+          title: "[#12345] Add feature X",
+          summary: pr.summary,
+          content_html: renderSummaryHTML(pr.summary),
+          date_published: "2025-01-15T10:00:00.000Z",
+          author: { name: "@testuser", url: "https://github.com/testuser" },
+        }),
+      ]);
+    });
+  });
+
+  describe("addArchiveLinks", () => {
+    const feed = () => createFeed(BASE_URL, "2025-01-16T00:00:00Z", [pr], metadata);
+    const archive = {
+      current: "/feed",
+      prevArchive: "/feeds/archive/2024-12",
+      nextArchive: "/feeds/archive/2025-02",
+    };
+
+    it("should add RFC 5005 links after the self link of an Atom feed", () => {
+      const atom = addArchiveLinks(feed().atom1(), "atom", BASE_URL, archive);
+
+      expect(atom).toContain(
+        '<feed xmlns="http://www.w3.org/2005/Atom" xmlns:fh="http://purl.org/syndication/history/1.0">',
+      );
+      expect(atom).toContain(
+        [
+          `    <link rel="self" href="${BASE_URL}/feed.atom"/>`,
+          `    <link rel="current" href="${BASE_URL}/feed.atom"/>`,
+          `    <link rel="prev-archive" href="${BASE_URL}/feeds/archive/2024-12.atom"/>`,
+          `    <link rel="next-archive" href="${BASE_URL}/feeds/archive/2025-02.atom"/>`,
+          "    <fh:archive/>",
+        ].join("\n"),
+      );
+    });
+
+    it("should add the links as atom:link elements to an RSS feed", () => {
+      const rss = addArchiveLinks(feed().rss2(), "rss", BASE_URL, archive);
+
+      expect(rss).toContain(
+        '<rss version="2.0" xmlns:fh="http://purl.org/syndication/history/1.0"',
+      );
+      expect(rss).toContain(
+        `<atom:link href="${BASE_URL}/feeds/archive/2024-12.xml" rel="prev-archive" type="application/rss+xml"/>`,
+      );
+      expect(rss).toContain("<fh:archive/>");
+    });
+
+    it("should not mark the subscription feed as an archive", () => {
+      const atom = addArchiveLinks(feed().atom1(), "atom", BASE_URL, {
+        prevArchive: "/feeds/archive/2025-01",
+      });
+
+      expect(atom).toContain(
+        `<link rel="prev-archive" href="${BASE_URL}/feeds/archive/2025-01.atom"/>`,
+      );
+      expect(atom).not.toContain("fh:");
+    });
+
+    it("should page a JSON Feed back to the older archive with next_url", () => {
+      const json = JSON.parse(addArchiveLinks(feed().json1(), "json", BASE_URL, archive));
+
+      expect(json.next_url).toBe(`${BASE_URL}/feeds/archive/2024-12.json`);
+      expect(json.items).toHaveLength(1);
+    });
+  });
+
+  describe("getFeedArchives", () => {
+    it("should list the listed PRs of each completed month, newest first", () => {
+      const store = new PRStore("/docs/data/prs");
+      store.upsert(createRecord({ number: 1, mergedAt: "2025-11-10T10:00:00Z" }));
+      store.upsert(createRecord({ number: 2, mergedAt: "2025-12-10T10:00:00Z" }));
+      store.upsert(createRecord({ number: 3, mergedAt: "2025-12-20T10:00:00Z" }));
+      store.upsert(createRecord({ number: 4, mergedAt: "2025-12-21T10:00:00Z", trivial: "tests" }));
+      store.upsert(createRecord({ number: 5, mergedAt: "2026-01-05T10:00:00Z" }));
+      const now = new Date("2026-01-10T00:00:00Z");
+
+      const archives = getFeedArchives(store, "compact", now);
+
+      expect(archives.map(({ month, items }) => [month, items.map((item) => item.number)])).toEqual(
+        [
+          ["2025-12", [3, 2]],
+          ["2025-11", [1]],
+        ],
+      );
+      expect(getFeedArchives(store, "template", now)[0].items.map((item) => item.number)).toEqual([
+        4, 3, 2,
+      ]);
+    });
+
+    it("should leave out months whose PRs are all unlisted", () => {
+      const store = new PRStore("/docs/data/prs");
+      store.upsert(createRecord({ mergedAt: "2025-12-10T10:00:00Z", trivial: "tests" }));
+
+      expect(getFeedArchives(store, "skip", new Date("2026-01-10T00:00:00Z"))).toEqual([]);
+    });
+  });
+
+  describe("generateFeeds", () => {
+    const prData: PRDataStore = {
+      lastUpdated: "2025-01-16T00:00:00Z",
+      totalCount: 1,
+      items: [pr],
+      byComponent: { activerecord: { name: "Active Record", items: [pr] } },
+      trivialPRMode: "compact",
+    };
+    const now = new Date("2025-02-10T00:00:00Z");
+
+    it("should write the site and component feeds in every format", () => {
+      vi.mocked(existsSync).mockImplementation((path) => path === "/docs/pr-data.json");
+      vi.mocked(readFileSync).mockReturnValue(JSON.stringify(prData));
+
+      generateFeeds("/docs/pr-data.json", "/docs/data/prs", "/dist", BASE_URL, now);
+
+      expect(vi.mocked(writeFileSync).mock.calls.map(([path]) => path)).toEqual([
+        join("/dist", "feed.xml"),
+        join("/dist", "feed.atom"),
+        join("/dist", "feed.json"),
+        join("/dist", "feeds", "activerecord.xml"),
+        join("/dist", "feeds", "activerecord.atom"),
+        join("/dist", "feeds", "activerecord.json"),
+      ]);
+      expect(mkdirSync).toHaveBeenCalledWith(join("/dist", "feeds"), { recursive: true });
+
+      const componentFeed = JSON.parse(vi.mocked(writeFileSync).mock.calls[5][1] as string);
+      expect(componentFeed.title).toBe("Ruby on Rails PR Digest - Active Record");
+      expect(componentFeed.home_page_url).toBe(BASE_URL);
+    });
+
+    it("should write a linked archive feed per completed month from the PR store", () => {
+      const records = [
+        createRecord({ number: 12345, title: "Add feature X", mergedAt: "2025-01-15T10:00:00Z" }),
+        createRecord({ number: 1, title: "Add feature X", mergedAt: "2024-12-20T10:00:00Z" }),
+      ];
+      vi.mocked(existsSync).mockReturnValue(true);
+      vi.mocked(readdirSync).mockReturnValue([
+        "2024-12.ndjson",
+        "2025-01.ndjson",
+      ] as unknown as ReturnType<typeof readdirSync>);
+      vi.mocked(readFileSync).mockImplementation((path) => {
+        if (path === join("/docs/data/prs", "2025-01.ndjson")) {
+          return JSON.stringify(records[0]);
+        }
+        if (path === join("/docs/data/prs", "2024-12.ndjson")) {
+          return JSON.stringify(records[1]);
+        }
+        return JSON.stringify(prData);
+      });
+
+      generateFeeds("/docs/pr-data.json", "/docs/data/prs", "/dist", BASE_URL, now);
+
+      const written = new Map(
+        vi.mocked(writeFileSync).mock.calls.map(([path, content]) => [path, content as string]),
+      );
+      expect(written.get(join("/dist", "feed.atom"))).toContain(
+        `<link rel="prev-archive" href="${BASE_URL}/feeds/archive/2025-01.atom"/>`,
+      );
+
+      const newest = written.get(join("/dist", "feeds", "archive", "2025-01.atom")) as string;
+      expect(newest).toContain("<fh:archive/>");
+      expect(newest).toContain(`<link rel="current" href="${BASE_URL}/feed.atom"/>`);
+      expect(newest).toContain(
+        `<link rel="prev-archive" href="${BASE_URL}/feeds/archive/2024-12.atom"/>`,
+      );
+      expect(newest).not.toContain("next-archive");
+      expect(newest).toContain("<title>Ruby on Rails PR Digest - 2025年 1月</title>");
+
+      const oldest = written.get(join("/dist", "feeds", "archive", "2024-12.xml")) as string;
+      expect(oldest).toContain(
+        `<atom:link href="${BASE_URL}/feeds/archive/2025-01.xml" rel="next-archive" type="application/rss+xml"/>`,
+      );
+      expect(oldest).not.toContain("prev-archive");
+      expect(oldest).toContain("[#1] Add feature X");
+
+      const oldestJson = JSON.parse(
+        written.get(join("/dist", "feeds", "archive", "2024-12.json")) as string,
+      );
+      expect(oldestJson.next_url).toBeUndefined();
+      expect(JSON.parse(written.get(join("/dist", "feed.json")) as string).next_url).toBe(
+        `${BASE_URL}/feeds/archive/2025-01.json`,
+      );
+    });
+
+    it("should not publish an archive of the current month", () => {
+      vi.mocked(existsSync).mockReturnValue(true);
+      vi.mocked(readdirSync).mockReturnValue(["2025-01.ndjson"] as unknown as ReturnType<
+        typeof readdirSync
+      >);
+      vi.mocked(readFileSync).mockImplementation((path) =>
+        path === join("/docs/data/prs", "2025-01.ndjson")
+          ? JSON.stringify(createRecord({ mergedAt: "2025-01-15T10:00:00Z" }))
+          : JSON.stringify(prData),
+      );
+
+      generateFeeds(
+        "/docs/pr-data.json",
+        "/docs/data/prs",
+        "/dist",
+        BASE_URL,
+        new Date("2025-01-31T23:00:00Z"),
+      );
+
+      const writtenPaths = vi.mocked(writeFileSync).mock.calls.map(([path]) => path);
+      expect(writtenPaths).not.toContain(join("/dist", "feeds", "archive", "2025-01.xml"));
+      expect(
+        vi
+          .mocked(writeFileSync)
+          .mock.calls.find(([path]) => path === join("/dist", "feed.atom"))?.[1],
+      ).not.toContain("prev-archive");
+    });
+
+    it("should skip generation without PR data", () => {
+      vi.mocked(existsSync).mockReturnValue(false);
+
+      generateFeeds("/docs/pr-data.json", "/docs/data/prs", "/dist", BASE_URL, now);
+
+      expect(writeFileSync).not.toHaveBeenCalled();
+    });
+
+    it("should skip generation without items", () => {
+      vi.mocked(existsSync).mockReturnValue(true);
+      vi.mocked(readFileSync).mockReturnValue(JSON.stringify({ ...prData, items: [] }));
+
+      generateFeeds("/docs/pr-data.json", "/docs/data/prs", "/dist", BASE_URL, now);
+
+      expect(writeFileSync).not.toHaveBeenCalled();
+    });
+  });
+});
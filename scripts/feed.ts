@@ -0,0 +1,289 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { Feed } from "feed";
+import MarkdownIt from "markdown-it";
+import { isListed, type PRData, type PRDataStore, toPRData } from "./file-manager";
+import { getMonthKey, parseMonthKey } from "./formatter";
+import { PRStore } from "./pr-store";
+import type { TrivialPRMode } from "./triage";
+
+export interface FeedMetadata {
+  id: string;
+  title: string;
+  description: string;
+  // Path of the feed files without the extension, e.g., /feeds/activerecord
+  path: string;
+  archive?: ArchiveLinks;
+}
+
+// Links between the subscription feed and its archive documents (RFC 5005 archived feeds).
+// Paths are without the extension, like FeedMetadata.path.
+export interface ArchiveLinks {
+  // Subscription feed of an archive document (its presence marks the document as an archive)
+  current?: string;
+  // Next older archive document
+  prevArchive?: string;
+  // Next newer archive document
+  nextArchive?: string;
+}
+
+// Every feed is published in each format, e.g., /feed.xml, /feed.atom and /feed.json
+export const FEED_FORMATS = {
+  rss: { extension: "xml", render: (feed: Feed) => feed.rss2() },
+  atom: { extension: "atom", render: (feed: Feed) => feed.atom1() },
+  json: { extension: "json", render: (feed: Feed) => feed.json1() },
+} as const;
+
+export type FeedFormat = keyof typeof FEED_FORMATS;
+
+const FEED_TITLE = "Ruby on Rails PR Digest";
+const FEED_DESCRIPTION =
+  "rails/railsリポジトリにマージされたPull RequestをAIで要約した日本語ダイジェスト";
+
+const HISTORY_NAMESPACE = "http://purl.org/syndication/history/1.0";
+
+// Summaries come from a model and PR descriptions, so raw HTML in them is escaped
+const markdown = new MarkdownIt({ html: false, linkify: true });
+
+/**
+ * Render a summary (Markdown) to HTML for the feed item content
+ */
+export function renderSummaryHTML(summary: string): string {
+  return markdown.render(summary);
+}
+
+/**
+ * Get the URL of a feed file, e.g., https://example.com/feeds/activerecord.atom
+ */
+export function getFeedUrl(baseUrl: string, path: string, format: FeedFormat): string {
+  return `${baseUrl}${path}.${FEED_FORMATS[format].extension}`;
+}
+
+/**
+ * Build a feed of PRs. The same feed renders to RSS 2.0, Atom and JSON Feed.
+ */
+export function createFeed(
+  baseUrl: string,
+  lastUpdated: string,
+  items: PRData[],
+  metadata: FeedMetadata,
+): Feed {
+  const feed = new Feed({
+    title: metadata.title,
+    description: metadata.description,
+    id: metadata.id,
+    link: baseUrl,
+    language: "ja",
+    favicon: `${baseUrl}/favicon.ico`,
+    copyright: "Copyright © 2025 Yuhei Nakasaka",
+    updated: new Date(lastUpdated),
+    generator: "Rails PR Digest Feed Generator",
+    feedLinks: {
+      rss: getFeedUrl(baseUrl, metadata.path, "rss"),
+      atom: getFeedUrl(baseUrl, metadata.path, "atom"),
+      json: getFeedUrl(baseUrl, metadata.path, "json"),
+    },
+  });
+
+  for (const pr of items) {
+    const mergedAt = new Date(pr.mergedAt);
+    feed.addItem({
+      title: `[#${pr.number}] ${pr.title}`,
+      id: pr.url,
+      link: `${baseUrl}/monthly/${getMonthKey(mergedAt)}#pr-${pr.number}`,
+      description: pr.summary,
+      content: renderSummaryHTML(pr.summary),
+      author: [{ name: `@${pr.author}`, link: pr.authorUrl }],
+      date: mergedAt,
+      published: mergedAt,
+    });
+  }
+
+  return feed;
+}
+
+/**
+ * Get the path of the archive feed of a month, e.g., /feeds/archive/2025-01
+ */
+export function getArchivePath(monthKey: string): string {
+  return `/feeds/archive/${monthKey}`;
+}
+
+/**
+ * Add the archive links to a rendered feed. RSS and Atom get RFC 5005 links
+ * (plus <fh:archive/> on archive documents); JSON Feed, which has no archive links,
+ * pages back to older PRs with next_url.
+ */
+export function addArchiveLinks(
+  document: string,
+  format: FeedFormat,
+  baseUrl: string,
+  archive: ArchiveLinks,
+): string {
+  if (format === "json") {
+    if (!archive.prevArchive) return document;
+    const json = JSON.parse(document);
+    json.next_url = getFeedUrl(baseUrl, archive.prevArchive, "json");
+    return JSON.stringify(json, null, 4);
+  }
+
+  const isArchive = archive.current !== undefined;
+  const links = (
+    [
+      ["current", archive.current],
+      ["prev-archive", archive.prevArchive],
+      ["next-archive", archive.nextArchive],
+    ] as const
+  ).flatMap(([rel, path]) => (path ? [[rel, getFeedUrl(baseUrl, path, format)]] : []));
+  const elements = links.map(([rel, href]) =>
+    format === "rss"
+      ? `<atom:link href="${href}" rel="${rel}" type="application/rss+xml"/>`
+      : `<link rel="${rel}" href="${href}"/>`,
+  );
+  if (isArchive) elements.push("<fh:archive/>");
+
+  const root =
+    format === "rss" ? '<rss version="2.0"' : '<feed xmlns="http://www.w3.org/2005/Atom"';
+  const selfLink =
+    format === "rss"
+      ? /^(\s*)<atom:link [^>]*rel="self"[^>]*\/>$/m
+      : /^(\s*)<link rel="self"[^>]*\/>$/m;
+  return document
+    .replace(root, isArchive ? `${root} xmlns:fh="${HISTORY_NAMESPACE}"` : root)
+    .replace(selfLink, (self, indent: string) =>
+      [self, ...elements.map((element) => `${indent}${element}`)].join("\n"),
+    );
+}
+
+/**
+ * Write a feed in every format
+ */
+function writeFeed(
+  outDir: string,
+  baseUrl: string,
+  feed: Feed,
+  metadata: Pick<FeedMetadata, "path" | "archive">,
+): void {
+  for (const [format, { extension, render }] of Object.entries(FEED_FORMATS)) {
+    const document = metadata.archive
+      ? addArchiveLinks(render(feed), format as FeedFormat, baseUrl, metadata.archive)
+      : render(feed);
+    const filepath = join(outDir, `${metadata.path}.${extension}`);
+    mkdirSync(dirname(filepath), { recursive: true });
+    writeFileSync(filepath, document, "utf-8");
+  }
+}
+
+// PRs of a month for its archive feed
+export interface FeedArchiveData {
+  month: string;
+  items: PRData[];
+}
+
+/**
+ * Collect the listed PRs of each completed month in the store, newest month first.
+ * The current month is left out: RFC 5005 archive documents must not change once published.
+ */
+export function getFeedArchives(
+  store: PRStore,
+  trivialPRMode: TrivialPRMode,
+  now: Date = new Date(),
+): FeedArchiveData[] {
+  const currentMonth = getMonthKey(now);
+  return store
+    .listMonths()
+    .filter((month) => month < currentMonth)
+    .map((month) => ({
+      month,
+      items: store
+        .getMonth(month)
+        .filter((record) => isListed(record, trivialPRMode))
+        .map(toPRData),
+    }))
+    .filter(({ items }) => items.length > 0);
+}
+
+/**
+ * Write an archive feed per month, each linking to the next older and newer months,
+ * so readers can walk back through every PR from the subscription feed
+ */
+function generateArchiveFeeds(outDir: string, baseUrl: string, archives: FeedArchiveData[]): void {
+  archives.forEach(({ month, items }, i) => {
+    const { year, month: monthNumber } = parseMonthKey(month);
+    const path = getArchivePath(month);
+    const feed = createFeed(baseUrl, items[0].mergedAt, items, {
+      id: `${baseUrl}${path}`,
+      title: `${FEED_TITLE} - ${year}年 ${monthNumber}月`,
+      description: `rails/railsリポジトリに${year}年 ${monthNumber}月にマージされたPull RequestのAI要約のアーカイブ`,
+      path,
+    });
+    writeFeed(outDir, baseUrl, feed, {
+      path,
+      archive: {
+        current: "/feed",
+        prevArchive: archives[i + 1] && getArchivePath(archives[i + 1].month),
+        nextArchive: archives[i - 1] && getArchivePath(archives[i - 1].month),
+      },
+    });
+  });
+  console.log(
+    `Archive feeds generated: ${join(outDir, "feeds", "archive")} (${archives.length} months)`,
+  );
+}
+
+/**
+ * Generate the site feed, the per-component feeds (e.g., /feeds/activerecord.xml)
+ * and the monthly archive feeds of completed months (e.g., /feeds/archive/2025-01.xml)
+ * into the build output, from pr-data.json and the PR store (docs/data/prs)
+ */
+export function generateFeeds(
+  prDataFile: string,
+  storeDir: string,
+  outDir: string,
+  baseUrl: string,
+  now: Date = new Date(),
+): void {
+  if (!existsSync(prDataFile)) {
+    console.warn("PR data file not found, skipping feed generation");
+    return;
+  }
+
+  const prData = JSON.parse(readFileSync(prDataFile, "utf-8")) as PRDataStore;
+  if (!prData.items || prData.items.length === 0) {
+    console.warn("No PR data available, skipping feed generation");
+    return;
+  }
+
+  const store = new PRStore(storeDir);
+  store.load();
+  // pr-data.json saved by older versions has no mode: they published in compact mode
+  const archives = getFeedArchives(store, prData.trivialPRMode ?? "compact", now);
+  const metadata: FeedMetadata = {
+    id: baseUrl,
+    title: FEED_TITLE,
+    description: FEED_DESCRIPTION,
+    path: "/feed",
+    archive: archives.length > 0 ? { prevArchive: getArchivePath(archives[0].month) } : undefined,
+  };
+  writeFeed(
+    outDir,
+    baseUrl,
+    createFeed(baseUrl, prData.lastUpdated, prData.items, metadata),
+    metadata,
+  );
+  console.log(`Feeds generated: ${outDir}/feed.* (${prData.items.length} items)`);
+
+  for (const [component, { name, items }] of Object.entries(prData.byComponent ?? {})) {
+    const path = `/feeds/${component}`;
+    const componentFeed = createFeed(baseUrl, prData.lastUpdated, items, {
+      id: `${baseUrl}/components/${component}`,
+      title: `${FEED_TITLE} - ${name}`,
+      description: `rails/railsリポジトリにマージされた${name}のPull RequestをAIで要約した日本語ダイジェスト`,
+      path,
+    });
+    writeFeed(outDir, baseUrl, componentFeed, { path });
+  }
+  console.log(`Component feeds generated: ${join(outDir, "feeds")}`);
+
+  generateArchiveFeeds(outDir, baseUrl, archives);
+}
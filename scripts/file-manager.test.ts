@@ -1,6 +1,16 @@
-import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from "node:fs";
+import {
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  unlinkSync,
+  writeFileSync,
+} from "node:fs";
 import { beforeEach, describe, expect, it, vi } from "vitest";
-import { FileManager } from "./file-manager";
+import { FileManager, type PRData } from "./file-manager";
+import { PRStore } from "./pr-store";
+import { createRecord } from "./test-fixtures";
+import { WeeklyOverviewStore } from "./weekly";
 
 vi.mock("node:fs");
 
@@ -15,7 +25,7 @@ describe("FileManager", () => {
   });
 
   describe("getExistingPRNumbers", () => {
-    it("should return empty set when file does not exist", () => {
+    it("should return empty set when directory does not exist", () => {
       vi.mocked(existsSync).mockReturnValue(false);
 
       const result = fileManager.getExistingPRNumbers();
@@ -35,6 +45,7 @@ title: 2025年 11月
 
 ## [#67890](https://github.com/rails/rails/pull/67890) Second PR
 `;
+      vi.mocked(readdirSync).mockReturnValue(["2025-11.md"] as any);
       vi.mocked(readFileSync).mockReturnValue(fileContent);
 
       const result = fileManager.getExistingPRNumbers();
@@ -44,6 +55,19 @@ title: 2025年 11月
       expect(result.has(67890)).toBe(true);
     });
 
+    it("should collect PR numbers across all monthly files", () => {
+      vi.mocked(existsSync).mockReturnValue(true);
+      vi.mocked(readdirSync).mockReturnValue(["2026-07.md", "2026-08.md", "index.md"] as any);
+      vi.mocked(readFileSync)
+        .mockReturnValueOnce("## [#111](url) July PR\n")
+        .mockReturnValueOnce("## [#222](url) August PR\n");
+
+      const result = fileManager.getExistingPRNumbers();
+
+      expect(readFileSync).toHaveBeenCalledTimes(2);
+      expect(result).toEqual(new Set([111, 222]));
+    });
+
     it("should handle file with no PR entries", () => {
       vi.mocked(existsSync).mockReturnValue(true);
       const fileContent = `---
@@ -54,6 +78,7 @@ title: 2025年 11月
 
 > No PRs yet
 `;
+      vi.mocked(readdirSync).mockReturnValue(["2025-11.md"] as any);
       vi.mocked(readFileSync).mockReturnValue(fileContent);
 
       const result = fileManager.getExistingPRNumbers();
@@ -68,6 +93,7 @@ title: 2025年 11月
 ## [#222](url) Second
 ## [#333](url) Third
 `;
+      vi.mocked(readdirSync).mockReturnValue(["2025-11.md"] as any);
       vi.mocked(readFileSync).mockReturnValue(fileContent);
 
       const result = fileManager.getExistingPRNumbers();
@@ -79,86 +105,233 @@ title: 2025年 11月
     });
   });
 
-  describe("updateMonthlyFile", () => {
-    it("should do nothing when entries array is empty", () => {
-      fileManager.updateMonthlyFile([]);
+  describe("readCollectorState", () => {
+    it("should return null when state file does not exist", () => {
+      vi.mocked(existsSync).mockReturnValue(false);
+
+      expect(fileManager.readCollectorState()).toBeNull();
+    });
 
-      expect(writeFileSync).not.toHaveBeenCalled();
+    it("should read lastMergedAt from state file", () => {
+      vi.mocked(existsSync).mockReturnValue(true);
+      vi.mocked(readFileSync).mockReturnValue(
+        JSON.stringify({
+          lastMergedAt: "2026-08-21T23:30:00Z",
+          lastRunAt: "2026-08-22T00:00:00.000Z",
+        }),
+      );
+
+      const state = fileManager.readCollectorState();
+
+      expect(vi.mocked(readFileSync).mock.calls[0][0]).toBe("/test/docs/collector-state.json");
+      expect(state?.lastMergedAt).toBe("2026-08-21T23:30:00Z");
+    });
+
+    it("should return null when state file is invalid", () => {
+      vi.mocked(existsSync).mockReturnValue(true);
+      vi.mocked(readFileSync).mockReturnValue("{ not json");
+
+      expect(fileManager.readCollectorState()).toBeNull();
     });
 
-    it("should create new file when it does not exist", () => {
+    it("should return null when lastMergedAt is missing", () => {
+      vi.mocked(existsSync).mockReturnValue(true);
+      vi.mocked(readFileSync).mockReturnValue(JSON.stringify({ lastRunAt: "2026-08-22" }));
+
+      expect(fileManager.readCollectorState()).toBeNull();
+    });
+  });
+
+  describe("saveCollectorState", () => {
+    it("should write state next to pr-data.json", () => {
+      fileManager.saveCollectorState({
+        lastMergedAt: "2026-08-21T23:30:00Z",
+        lastRunAt: "2026-08-22T00:00:00.000Z",
+      });
+
+      const [filepath, content] = vi.mocked(writeFileSync).mock.calls[0];
+      expect(filepath).toBe("/test/docs/collector-state.json");
+      expect(JSON.parse(content as string).lastMergedAt).toBe("2026-08-21T23:30:00Z");
+    });
+  });
+
+  describe("renderMonthlyFile", () => {
+    it("should render all records of the month into the monthly file", () => {
       vi.mocked(existsSync).mockReturnValue(false);
-      const entries = ["## PR 1\nContent 1\n---"];
 
-      fileManager.updateMonthlyFile(entries);
+      const result = fileManager.renderMonthlyFile("2026-08", [
+        createRecord({ number: 2, mergedAt: "2026-08-12T10:00:00Z", title: "Newer PR" }),
+        createRecord({ number: 1, mergedAt: "2026-08-10T10:00:00Z", title: "Older PR" }),
+      ]);
 
+      expect(result).toBe(true);
       expect(mkdirSync).toHaveBeenCalled();
-      expect(writeFileSync).toHaveBeenCalledWith(
-        expect.stringContaining(".md"),
-        expect.stringContaining("## PR 1"),
-        "utf-8",
+      const [filepath, content] = vi.mocked(writeFileSync).mock.calls[0];
+      expect(filepath).toBe(`${docsDir}/2026-08.md`);
+      expect(content).toContain("title: 2026年 8月");
+      expect(content).toContain("# Ruby on Rails PR Digest - 2026年 8月");
+      expect(content).toContain(
+        '## [#2](https://github.com/rails/rails/pull/2) Newer PR <Badge type="info" text="内部変更" /> {#pr-2}',
+      );
+      expect(content).not.toContain("破壊的変更・非推奨化");
+      expect((content as string).indexOf("## [#2]")).toBeLessThan(
+        (content as string).indexOf("## [#1]"),
       );
     });
 
-    it("should update existing file with new entries prepended", () => {
-      vi.mocked(existsSync).mockReturnValue(true);
-      const existingContent = `---
-title: 2025年 11月
-lastUpdated: 2025-11-23
----
+    it("should list breaking changes and deprecations above the entries", () => {
+      vi.mocked(existsSync).mockReturnValue(false);
 
-# Ruby on Rails PR Digest - 2025年 11月
+      fileManager.renderMonthlyFile("2026-08", [
+        createRecord({
+          number: 3,
+          title: "Remove deprecated API",
+          changeType: "removal",
+          breaking: true,
+        }),
+        createRecord({ number: 2, title: "Deprecate API", changeType: "deprecation" }),
+        createRecord({ number: 1, title: "Add API", changeType: "feature" }),
+      ]);
+
+      const content = vi.mocked(writeFileSync).mock.calls[0][1] as string;
+      const section = content.slice(
+        content.indexOf("## ⚠️ 破壊的変更・非推奨化"),
+        content.indexOf("## [#3]"),
+      );
+      expect(section).toContain("(#pr-3)");
+      expect(section).toContain("(#pr-2)");
+      expect(section).not.toContain("(#pr-1)");
+    });
+
+    it("should put the highlights of the listed records at the top", () => {
+      vi.mocked(existsSync).mockReturnValue(false);
 
-> このページは [rails/rails](https://github.com/rails/rails) リポジトリにマージされたPull Requestを自動的に収集し、AIで要約したものです。
+      fileManager.renderMonthlyFile("2026-08", [
+        createRecord({ number: 2, title: "Fix typo", trivial: "docs" }),
+        createRecord({
+          number: 1,
+          title: "Add API",
+          changeType: "feature",
+          components: ["activerecord"],
+        }),
+      ]);
+
+      const content = vi.mocked(writeFileSync).mock.calls[0][1] as string;
+      const section = content.slice(
+        content.indexOf("## 📊 今月のハイライト"),
+        content.indexOf("## [#1]"),
+      );
+      expect(section).toContain("**変更の種類**（全1件）: 新機能 1件");
+      expect(section).toContain("**Active Record**（1件）");
+      expect(section).toContain("(#pr-1)");
+      expect(section).toContain("[@testuser](https://github.com/testuser) 1件");
+      expect(section).not.toContain("#2");
+    });
 
-## [#100](url) Old PR
-Old content
-`;
-      vi.mocked(readFileSync).mockReturnValue(existingContent);
-      const newEntries = ["## [#200](url) New PR\nNew content\n---"];
+    it("should list trivial PRs in the other changes section in compact mode", () => {
+      vi.mocked(existsSync).mockReturnValue(false);
 
-      fileManager.updateMonthlyFile(newEntries);
+      fileManager.renderMonthlyFile("2026-08", [
+        createRecord({ number: 2, title: "Fix typo", trivial: "docs" }),
+        createRecord({ number: 1, title: "Add API" }),
+      ]);
 
-      expect(writeFileSync).toHaveBeenCalled();
-      const writtenContent = vi.mocked(writeFileSync).mock.calls[0][1] as string;
-      expect(writtenContent).toContain("## [#200](url) New PR");
-      expect(writtenContent).toContain("## [#100](url) Old PR");
-      expect(writtenContent.indexOf("## [#200]")).toBeLessThan(writtenContent.indexOf("## [#100]"));
+      const content = vi.mocked(writeFileSync).mock.calls[0][1] as string;
+      expect(content).not.toContain("## [#2]");
+      expect(content).toContain("## [#1]");
+      expect(content).toContain(
+        "## その他の変更\n\n- [#2](https://github.com/rails/rails/pull/2) Fix typo (@testuser, ドキュメントのみの変更)",
+      );
+    });
+
+    it("should leave out trivial PRs in skip mode and render them fully in template mode", () => {
+      vi.mocked(existsSync).mockReturnValue(false);
+      const records = [createRecord({ number: 2, trivial: "tiny" })];
+
+      new FileManager(docsDir, indexFile, { trivialPRMode: "skip" }).renderMonthlyFile(
+        "2026-08",
+        records,
+      );
+      new FileManager(docsDir, indexFile, { trivialPRMode: "template" }).renderMonthlyFile(
+        "2026-08",
+        records,
+      );
+
+      const [skipped, template] = vi
+        .mocked(writeFileSync)
+        .mock.calls.map(([, content]) => content as string);
+      expect(skipped).not.toContain("#2");
+      expect(template).toContain("## [#2]");
+      expect(template).not.toContain("その他の変更");
     });
 
-    it("should update lastUpdated date in frontmatter", () => {
+    it("should render summaries containing horizontal rules as-is", () => {
+      vi.mocked(existsSync).mockReturnValue(false);
+
+      fileManager.renderMonthlyFile("2026-08", [
+        createRecord({ number: 1, summary: "1. 概要\n\n---\n\n2. 変更内容" }),
+      ]);
+
+      const content = vi.mocked(writeFileSync).mock.calls[0][1] as string;
+      expect(content).toContain("1. 概要\n\n---\n\n2. 変更内容");
+    });
+
+    it("should render an unknown author when the record has none", () => {
+      vi.mocked(existsSync).mockReturnValue(false);
+
+      fileManager.renderMonthlyFile("2026-08", [createRecord({ author: null, authorUrl: null })]);
+
+      const content = vi.mocked(writeFileSync).mock.calls[0][1] as string;
+      expect(content).toContain("[@unknown](#)");
+    });
+
+    it("should overwrite existing file when all its entries are in the store", () => {
       vi.mocked(existsSync).mockReturnValue(true);
-      const existingContent = `---
-title: 2025年 11月
-lastUpdated: 2025-11-20
----
+      vi.mocked(readFileSync).mockReturnValue("## [#1](url) Old title\n");
 
-# Ruby on Rails PR Digest - 2025年 11月
+      const result = fileManager.renderMonthlyFile("2026-08", [
+        createRecord({ number: 1, title: "New title" }),
+      ]);
 
-> このページは [rails/rails](https://github.com/rails/rails) リポジトリにマージされたPull Requestを自動的に収集し、AIで要約したものです。
+      expect(result).toBe(true);
+      expect(vi.mocked(writeFileSync).mock.calls[0][1]).toContain("New title");
+    });
 
-`;
-      vi.mocked(readFileSync).mockReturnValue(existingContent);
-      const newEntries = ["## [#200](url) New PR\n"];
+    it("should not overwrite existing file with entries missing from the store", () => {
+      vi.mocked(existsSync).mockReturnValue(true);
+      vi.mocked(readFileSync).mockReturnValue("## [#1](url) First\n\n## [#999](url) Legacy\n");
 
-      fileManager.updateMonthlyFile(newEntries);
+      const result = fileManager.renderMonthlyFile("2026-08", [createRecord({ number: 1 })]);
 
-      const writtenContent = vi.mocked(writeFileSync).mock.calls[0][1] as string;
-      expect(writtenContent).toContain("lastUpdated:");
-      expect(writtenContent).not.toContain("lastUpdated: 2025-11-20");
+      expect(result).toBe(false);
+      expect(writeFileSync).not.toHaveBeenCalled();
+    });
+    it("should overwrite existing file when missing entries are stored under another month", () => {
+      vi.mocked(existsSync).mockReturnValue(true);
+      vi.mocked(readFileSync).mockReturnValue("## [#1](url) First\n\n## [#2](url) Moved\n");
+
+      const result = fileManager.renderMonthlyFile(
+        "2026-08",
+        [createRecord({ number: 1 })],
+        new Set([1, 2]),
+      );
+
+      expect(result).toBe(true);
+      expect(vi.mocked(writeFileSync).mock.calls[0][1]).not.toContain("Moved");
     });
   });
 
   describe("generateMonthlyIndex", () => {
-    it("should do nothing when docs directory does not exist", () => {
+    it("should write an empty index when there are no months", () => {
       vi.mocked(existsSync).mockReturnValue(false);
 
-      fileManager.generateMonthlyIndex();
+      fileManager.generateMonthlyIndex([]);
 
-      expect(writeFileSync).not.toHaveBeenCalled();
+      expect(writeFileSync).toHaveBeenCalledTimes(1);
+      expect(JSON.parse(vi.mocked(writeFileSync).mock.calls[0][1] as string)).toEqual([]);
     });
 
-    it("should generate index with sorted monthly files", () => {
+    it("should generate index with sorted months", () => {
       const homePageContent = `---
 layout: home
 hero:
@@ -169,15 +342,9 @@ hero:
 ---`;
 
       vi.mocked(existsSync).mockReturnValue(true);
-      vi.mocked(readdirSync).mockReturnValue([
-        "2025-01.md",
-        "2025-03.md",
-        "2025-02.md",
-        "index.md",
-      ] as any);
       vi.mocked(readFileSync).mockReturnValue(homePageContent);
 
-      fileManager.generateMonthlyIndex();
+      fileManager.generateMonthlyIndex(["2025-01", "2025-03", "2025-02"]);
 
       expect(writeFileSync).toHaveBeenCalled();
       const writtenData = vi.mocked(writeFileSync).mock.calls[0][1] as string;
@@ -200,10 +367,9 @@ hero:
 ---`;
 
       vi.mocked(existsSync).mockReturnValue(true);
-      vi.mocked(readdirSync).mockReturnValue(["2025-11.md"] as any);
       vi.mocked(readFileSync).mockReturnValue(homePageContent);
 
-      fileManager.generateMonthlyIndex();
+      fileManager.generateMonthlyIndex(["2025-11"]);
 
       const writtenData = vi.mocked(writeFileSync).mock.calls[0][1] as string;
       const indexData = JSON.parse(writtenData);
@@ -233,10 +399,9 @@ hero:
 ---`;
 
       vi.mocked(existsSync).mockReturnValue(true);
-      vi.mocked(readdirSync).mockReturnValue(["2025-11.md"] as any);
       vi.mocked(readFileSync).mockReturnValue(homePageContent);
 
-      fileManager.generateMonthlyIndex();
+      fileManager.generateMonthlyIndex(["2025-11"]);
 
       // Check that writeFileSync was called for both index.json and index.md
       const calls = vi.mocked(writeFileSync).mock.calls;
@@ -253,43 +418,11 @@ hero:
     });
   });
 
-  describe("extractAndSavePRsFromMonthlyFiles", () => {
-    it("should extract PRs from markdown files and save to JSON", () => {
-      const mockMarkdownContent = `---
-title: 2025年 12月
----
-
-# Ruby on Rails PR Digest - 2025年 12月
-
-> このページは [rails/rails](https://github.com/rails/rails) リポジトリにマージされたPull Requestを自動的に収集し、AIで要約したものです。
-
-## [#12345](https://github.com/rails/rails/pull/12345) Fix authentication bug
-
-**マージ日**: 2025/12/17 | **作成者**: [@testuser](https://github.com/testuser)
-
-This PR fixes a critical authentication bug.
-
-1. 概要
-2. 変更内容
-
----
-
-## [#67890](https://github.com/rails/rails/pull/67890) Add new feature
-
-**マージ日**: 2025/12/16 | **作成者**: [@developer](https://github.com/developer)
-
-This PR adds a new feature.
-
-Summary content here.
-
----
-`;
-
-      vi.mocked(existsSync).mockReturnValue(true);
-      vi.mocked(readdirSync).mockReturnValue(["2025-12.md"] as any);
-      vi.mocked(readFileSync).mockReturnValue(mockMarkdownContent);
-
-      fileManager.extractAndSavePRsFromMonthlyFiles();
+  describe("savePRData", () => {
+    it("should save records to pr-data.json", () => {
+      fileManager.savePRData([
+        createRecord({ number: 12345, title: "Fix authentication bug", author: "testuser" }),
+      ]);
 
       expect(writeFileSync).toHaveBeenCalledWith(
         expect.stringContaining("pr-data.json"),
@@ -297,111 +430,250 @@ Summary content here.
         "utf-8",
       );
 
-      const writtenContent = vi.mocked(writeFileSync).mock.calls[0][1] as string;
-      const savedData = JSON.parse(writtenContent);
-
-      expect(savedData.totalCount).toBe(2);
-      expect(savedData.items).toHaveLength(2);
-      expect(savedData.items[0].number).toBe(12345);
-      expect(savedData.items[0].title).toBe("Fix authentication bug");
-      expect(savedData.items[0].author).toBe("testuser");
-      expect(savedData.items[0].summary).toContain("This PR fixes a critical authentication bug");
+      const savedData = JSON.parse(vi.mocked(writeFileSync).mock.calls[0][1] as string);
+      expect(savedData.totalCount).toBe(1);
+      expect(savedData.items[0]).toEqual({
+        number: 12345,
+        title: "Fix authentication bug",
+        url: "https://github.com/rails/rails/pull/12345",
+        mergedAt: "2026-08-10T10:00:00Z",
+        author: "testuser",
+        authorUrl: "https://github.com/testuser",
+        components: [],
+        summary: "Summary",
+      });
+      expect(savedData.trivialPRMode).toBe("compact");
     });
 
-    it("should skip monthly directory if it does not exist", () => {
-      vi.mocked(existsSync).mockReturnValue(false);
+    it("should limit to 50 most recent PRs", () => {
+      const records = Array.from({ length: 60 }, (_, i) =>
+        createRecord({
+          number: i + 1,
+          mergedAt: new Date(Date.UTC(2025, 11, 1 + i)).toISOString(),
+        }),
+      );
 
-      fileManager.extractAndSavePRsFromMonthlyFiles();
+      fileManager.savePRData(records);
 
-      expect(writeFileSync).not.toHaveBeenCalled();
-    });
+      const savedData = JSON.parse(vi.mocked(writeFileSync).mock.calls[0][1] as string);
 
-    it("should limit to 50 most recent PRs", () => {
-      // Create markdown content with more than 50 PRs
-      const prs = Array.from({ length: 60 }, (_, i) => {
-        const prNumber = i + 1;
-        const date = new Date(2025, 11, 1 + i); // December 1-60, 2025
-        const dateStr = `${date.getFullYear()}/${String(date.getMonth() + 1).padStart(2, "0")}/${String(date.getDate()).padStart(2, "0")}`;
+      // Should only have 50 items (newest ones)
+      expect(savedData.totalCount).toBe(50);
+      expect(savedData.items).toHaveLength(50);
 
-        return `## [#${prNumber}](https://github.com/rails/rails/pull/${prNumber}) PR ${prNumber}
+      // Newest PR should be first (PR #60)
+      expect(savedData.items[0].number).toBe(60);
+      // Oldest in the list should be PR #11 (60 - 49 = 11)
+      expect(savedData.items[49].number).toBe(11);
+    });
 
-**マージ日**: ${dateStr} | **作成者**: [@user${prNumber}](https://github.com/user${prNumber})
+    it("should limit the feeds to the configured number of PRs", () => {
+      const records = Array.from({ length: 10 }, (_, i) =>
+        createRecord({ number: i + 1, components: ["activerecord"] }),
+      );
 
-Summary for PR ${prNumber}
+      new FileManager(docsDir, indexFile, { feedItemLimit: 3 }).savePRData(records);
 
----
-`;
-      }).join("\n");
+      const savedData = JSON.parse(vi.mocked(writeFileSync).mock.calls[0][1] as string);
+      expect(savedData.items).toHaveLength(3);
+      expect(savedData.byComponent.activerecord.items).toHaveLength(3);
+    });
 
-      const mockContent = `---
-title: 2025年 12月
----
+    it("should reject feed sizes that are not positive integers", () => {
+      for (const feedItemLimit of [Number.NaN, 0, -1, 2.5]) {
+        expect(() => new FileManager(docsDir, indexFile, { feedItemLimit })).toThrow(
+          `Feed item limit must be a positive integer (got ${feedItemLimit})`,
+        );
+      }
+    });
 
-# Ruby on Rails PR Digest
+    it("should save the latest PRs of each component", () => {
+      fileManager.savePRData([
+        createRecord({ number: 1, components: ["activerecord"] }),
+        createRecord({ number: 2, components: [] }),
+      ]);
+
+      const savedData = JSON.parse(vi.mocked(writeFileSync).mock.calls[0][1] as string);
+      expect(Object.keys(savedData.byComponent)).toEqual(["activerecord"]);
+      expect(savedData.byComponent.activerecord.name).toBe("Active Record");
+      expect(savedData.byComponent.activerecord.items.map((item: PRData) => item.number)).toEqual([
+        1,
+      ]);
+    });
 
-${prs}`;
+    it("should use unknown author for records without one", () => {
+      fileManager.savePRData([createRecord({ author: null, authorUrl: null })]);
 
-      vi.mocked(existsSync).mockReturnValue(true);
-      vi.mocked(readdirSync).mockReturnValue(["2025-12.md"] as any);
-      vi.mocked(readFileSync).mockReturnValue(mockContent);
+      const savedData = JSON.parse(vi.mocked(writeFileSync).mock.calls[0][1] as string);
+      expect(savedData.items[0].author).toBe("unknown");
+      expect(savedData.items[0].authorUrl).toBe("#");
+    });
+  });
 
-      fileManager.extractAndSavePRsFromMonthlyFiles();
+  describe("renderWeeklyPages", () => {
+    const weeklyDir = "/test/docs/weekly";
 
-      const writtenContent = vi.mocked(writeFileSync).mock.calls[0][1] as string;
-      const savedData = JSON.parse(writtenContent);
+    it("should render the weeks of the given months and weeks without a page, then the index", () => {
+      vi.mocked(existsSync).mockImplementation(
+        (path) => path === weeklyDir || path === `${weeklyDir}/2026-W28.md`,
+      );
+      const store = new PRStore("/test/docs/data/prs");
+      store.upsert(createRecord({ number: 1, mergedAt: "2026-07-10T10:00:00Z" }));
+      store.upsert(createRecord({ number: 2, mergedAt: "2026-07-20T10:00:00Z" }));
+      store.upsert(createRecord({ number: 3, mergedAt: "2026-08-10T10:00:00Z" }));
+      store.upsert(createRecord({ number: 4, mergedAt: "2026-08-11T10:00:00Z" }));
+      store.upsert(createRecord({ number: 5, mergedAt: "2026-08-12T10:00:00Z", trivial: "tests" }));
+      const overviews = new WeeklyOverviewStore("/test/docs/data/weekly-overviews.json");
+      overviews.set("2026-W33", [3, 4], "- 今週の変更 (#3)");
+
+      fileManager.renderWeeklyPages(store, ["2026-08"], overviews);
+
+      const written = new Map(
+        vi.mocked(writeFileSync).mock.calls.map(([filepath, content]) => [filepath, content]),
+      );
+      expect(Array.from(written.keys())).toEqual([
+        `${weeklyDir}/2026-W33.md`,
+        `${weeklyDir}/2026-W30.md`,
+        `${weeklyDir}/index.md`,
+      ]);
+      const page = written.get(`${weeklyDir}/2026-W33.md`) as string;
+      expect(page).toContain("## 今週の注目ポイント\n\n- 今週の変更 (#3)");
+      expect(page.indexOf("{#pr-4}")).toBeLessThan(page.indexOf("{#pr-3}"));
+      expect(page).not.toContain("{#pr-5}");
+      expect(written.get(`${weeklyDir}/2026-W30.md`)).not.toContain("今週の注目ポイント");
+
+      const index = written.get(`${weeklyDir}/index.md`) as string;
+      expect(index).toContain("[2026年 第33週](/weekly/2026-W33)");
+      expect(index).toContain("2026/8/10〜2026/8/16、2件");
+      expect(index).toContain("[2026年 第28週](/weekly/2026-W28)");
+    });
+  });
 
-      // Should only have 50 items (newest ones)
-      expect(savedData.totalCount).toBe(50);
-      expect(savedData.items).toHaveLength(50);
+  describe("renderReleasePages", () => {
+    const releases = [
+      { tagName: "v8.1.0", publishedAt: "2025-10-22T20:00:00Z" },
+      { tagName: "v8.1.0.beta1", publishedAt: "2025-09-04T20:00:00Z" },
+    ];
 
-      // Newest PR should be first (PR #60)
-      expect(savedData.items[0].number).toBe(60);
-      // Oldest in the list should be PR #11 (60 - 49 = 11)
-      expect(savedData.items[49].number).toBe(11);
-    });
+    it("should render a page per version and branch of unreleased changes, and their index", () => {
+      vi.mocked(existsSync).mockReturnValue(true);
+      vi.mocked(readdirSync).mockReturnValue([
+        "index.md",
+        "main.md",
+        "8-0-stable.md",
+      ] as unknown as ReturnType<typeof readdirSync>);
+      const store = new PRStore("/test/docs/data/prs");
+      store.upsert(createRecord({ number: 3, mergedAt: "2025-11-01T10:00:00Z", trivial: "docs" }));
+      store.upsert(createRecord({ number: 2, mergedAt: "2025-11-01T10:00:00Z" }));
+      store.upsert(
+        createRecord({ number: 1, mergedAt: "2025-09-01T10:00:00Z", changeType: "feature" }),
+      );
 
-    it("should sort PRs by merged date descending across multiple files", () => {
-      const mockContent2025_12 = `---
-title: 2025年 12月
----
+      fileManager.renderReleasePages(store, releases);
 
-## [#300](https://github.com/rails/rails/pull/300) Latest PR
+      const written = new Map(
+        vi.mocked(writeFileSync).mock.calls.map(([path, content]) => [path, content as string]),
+      );
+      expect(Array.from(written.keys())).toEqual([
+        "/test/docs/releases/main.md",
+        "/test/docs/releases/v8-1-0.md",
+        "/test/docs/releases/index.md",
+      ]);
+      expect(written.get("/test/docs/releases/main.md")).toContain("(/monthly/2025-11#pr-2)");
+      expect(written.get("/test/docs/releases/main.md")).not.toContain("#pr-3");
+      expect(written.get("/test/docs/releases/v8-1-0.md")).toContain(
+        "## 新機能\n\n- [#1 Test PR](/monthly/2025-09#pr-1)",
+      );
+      expect(unlinkSync).toHaveBeenCalledTimes(1);
+      expect(unlinkSync).toHaveBeenCalledWith("/test/docs/releases/8-0-stable.md");
+    });
 
-**マージ日**: 2025/12/20 | **作成者**: [@user300](https://github.com/user300)
+    it("should skip release pages without releases", () => {
+      fileManager.renderReleasePages(new PRStore("/test/docs/data/prs"), []);
 
-Latest PR summary
+      expect(writeFileSync).not.toHaveBeenCalled();
+    });
+  });
 
----
-`;
+  describe("renderComponentPages", () => {
+    it("should render a page per component with PRs and an index", () => {
+      vi.mocked(existsSync).mockReturnValue(true);
+      const store = new PRStore("/test/docs/data/prs");
+      store.upsert(createRecord({ number: 1, components: ["activerecord"] }));
+      store.upsert(
+        createRecord({
+          number: 2,
+          mergedAt: "2026-07-10T10:00:00Z",
+          components: ["activerecord", "actionpack"],
+        }),
+      );
 
-      const mockContent2025_11 = `---
-title: 2025年 11月
----
+      fileManager.renderComponentPages(store);
 
-## [#200](https://github.com/rails/rails/pull/200) Older PR
+      const written = new Map(
+        vi.mocked(writeFileSync).mock.calls.map(([filepath, content]) => [filepath, content]),
+      );
+      expect(Array.from(written.keys())).toEqual([
+        "/test/docs/components/actionpack.md",
+        "/test/docs/components/activerecord.md",
+        "/test/docs/components/index.md",
+      ]);
+      const page = written.get("/test/docs/components/activerecord.md") as string;
+      expect(page.indexOf("/monthly/2026-08#pr-1")).toBeLessThan(
+        page.indexOf("/monthly/2026-07#pr-2"),
+      );
+    });
+  });
 
-**マージ日**: 2025/11/15 | **作成者**: [@user200](https://github.com/user200)
+  describe("publish", () => {
+    it("should render only the given months, the index and pr-data.json", () => {
+      vi.mocked(existsSync).mockReturnValue(false);
+      const store = new PRStore("/test/docs/data/prs");
+      store.upsert(createRecord({ number: 1, mergedAt: "2026-07-10T10:00:00Z" }));
+      store.upsert(createRecord({ number: 2, mergedAt: "2026-08-10T10:00:00Z" }));
 
-Older PR summary
+      expect(fileManager.publish(store, ["2026-08"])).toBe(true);
 
----
-`;
+      const writtenPaths = vi.mocked(writeFileSync).mock.calls.map(([filepath]) => filepath);
+      expect(writtenPaths).toContain(`${docsDir}/2026-08.md`);
+      expect(writtenPaths).not.toContain(`${docsDir}/2026-07.md`);
+      expect(writtenPaths).toContain(indexFile);
+      expect(writtenPaths).toContain("/test/docs/pr-data.json");
+    });
 
+    it("should write nothing when the monthly pages have entries not in the store", () => {
       vi.mocked(existsSync).mockReturnValue(true);
-      vi.mocked(readdirSync).mockReturnValue(["2025-12.md", "2025-11.md"] as any);
-      vi.mocked(readFileSync)
-        .mockReturnValueOnce(mockContent2025_12)
-        .mockReturnValueOnce(mockContent2025_11);
+      vi.mocked(readdirSync).mockReturnValue(["2026-07.md", "2026-08.md"] as any);
+      vi.mocked(readFileSync).mockImplementation((path) =>
+        String(path).endsWith("2026-07.md")
+          ? "## [#1](https://github.com/rails/rails/pull/1) Old PR\n"
+          : "## [#2](https://github.com/rails/rails/pull/2) New PR\n",
+      );
+      const store = new PRStore("/test/docs/data/prs");
+      store.upsert(createRecord({ number: 2, mergedAt: "2026-08-10T10:00:00Z" }));
 
-      fileManager.extractAndSavePRsFromMonthlyFiles();
+      expect(fileManager.checkPagesInStore(store)).toBe(false);
+      expect(fileManager.publish(store, ["2026-08"])).toBe(false);
+      expect(writeFileSync).not.toHaveBeenCalled();
 
-      const writtenContent = vi.mocked(writeFileSync).mock.calls[0][1] as string;
-      const savedData = JSON.parse(writtenContent);
+      store.upsert(createRecord({ number: 1, mergedAt: "2026-07-10T10:00:00Z" }));
+      expect(fileManager.checkPagesInStore(store)).toBe(true);
+    });
 
-      expect(savedData.items).toHaveLength(2);
-      // Newest PR should be first
-      expect(savedData.items[0].number).toBe(300);
-      expect(savedData.items[1].number).toBe(200);
+    it("should leave trivial PRs out of the feeds in compact mode", () => {
+      vi.mocked(existsSync).mockReturnValue(false);
+      const store = new PRStore("/test/docs/data/prs");
+      store.upsert(createRecord({ number: 1, components: ["activerecord"] }));
+      store.upsert(createRecord({ number: 2, components: ["activerecord"], trivial: "tests" }));
+
+      fileManager.publish(store, ["2026-08"]);
+
+      const prDataCall = vi
+        .mocked(writeFileSync)
+        .mock.calls.find(([filepath]) => filepath === "/test/docs/pr-data.json");
+      const prData = JSON.parse(prDataCall?.[1] as string);
+      expect(prData.items.map((item: PRData) => item.number)).toEqual([1]);
+      expect(prData.byComponent.activerecord.items).toHaveLength(1);
     });
   });
 });
@@ -1,6 +1,38 @@
-import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from "node:fs";
+import {
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  unlinkSync,
+  writeFileSync,
+} from "node:fs";
 import { join } from "node:path";
-import { getMonthlyFilename, getYearMonth } from "./formatter";
+import { CHANGE_TYPE_KEYS, isBreakingOrDeprecation } from "./change-types";
+import { COMPONENT_KEYS, getComponentName, type RailsComponent } from "./components";
+import {
+  formatBreakingChangeItem,
+  formatComponentIndexPage,
+  formatComponentListItem,
+  formatComponentPage,
+  formatMonthlyHighlights,
+  formatMonthlyPage,
+  formatPREntry,
+  formatReleaseIndexPage,
+  formatReleaseListItem,
+  formatReleasePage,
+  formatSummary,
+  formatTrivialPRItem,
+  formatWeeklyIndexPage,
+  formatWeeklyPage,
+  getMonthKey,
+  parseMonthKey,
+} from "./formatter";
+import type { Release } from "./github-client";
+import { computeMonthlyHighlights } from "./highlights";
+import type { PRStore, StoredPR } from "./pr-store";
+import { groupByRelease } from "./releases";
+import type { TrivialPRMode } from "./triage";
+import { getWeeksOfMonths, type WeeklyOverviewStore } from "./weekly";
 
 export interface MonthlyIndexEntry {
   filename: string;
@@ -17,164 +49,316 @@ export interface PRData {
   mergedAt: string;
   author: string;
   authorUrl: string;
+  components: RailsComponent[];
   summary: string;
 }
 
+export interface ComponentFeedData {
+  name: string;
+  items: PRData[];
+}
+
 export interface PRDataStore {
   lastUpdated: string;
   totalCount: number;
   items: PRData[];
+  // Items of the per-component feeds, keyed by component (e.g., activerecord)
+  byComponent: Record<string, ComponentFeedData>;
+  // Publishing mode of trivial PRs, so the archive feeds list the same PRs as the pages
+  trivialPRMode: TrivialPRMode;
+}
+
+// Default number of PRs in each feed
+export const DEFAULT_FEED_ITEM_LIMIT = 50;
+
+export interface CollectorState {
+  // Latest merged_at of the PRs processed so far (high-water mark for the next run)
+  lastMergedAt: string;
+  lastRunAt: string;
+}
+
+/**
+ * Extract PR numbers from entry headings: ## [#123](url) Title
+ */
+function extractPRNumbers(content: string): Set<number> {
+  const prNumbers = new Set<number>();
+  for (const match of content.matchAll(/## \[#(\d+)\]/g)) {
+    prNumbers.add(Number.parseInt(match[1], 10));
+  }
+  return prNumbers;
+}
+
+/**
+ * Whether a record gets a full entry on the pages and in the feeds.
+ * In compact and skip modes, trivial PRs do not.
+ */
+export function isListed(record: StoredPR, trivialPRMode: TrivialPRMode): boolean {
+  return record.trivial === null || trivialPRMode === "summarize" || trivialPRMode === "template";
+}
+
+/**
+ * Convert a store record into a feed item of the feeds
+ */
+export function toPRData(record: StoredPR): PRData {
+  return {
+    number: record.number,
+    title: record.title,
+    url: record.url,
+    mergedAt: record.mergedAt,
+    author: record.author ?? "unknown",
+    authorUrl: record.authorUrl ?? "#",
+    components: record.components,
+    summary: formatSummary(record.summary),
+  };
+}
+
+/**
+ * Convert a store record into the shape used by formatPREntry
+ */
+function toEntryPR(record: StoredPR) {
+  return {
+    number: record.number,
+    title: record.title,
+    html_url: record.url,
+    merged_at: record.mergedAt,
+    user: record.author ? { login: record.author, html_url: record.authorUrl ?? "#" } : null,
+    base_ref: record.baseBranch,
+    backport_of: record.backportOf,
+  };
+}
+
+export interface FileManagerOptions {
+  // How records that triage found trivial are published (default: compact)
+  trivialPRMode?: TrivialPRMode;
+  // Number of PRs in the site and component feeds (default: 50). Older PRs stay in the archive feeds.
+  feedItemLimit?: number;
 }
 
 export class FileManager {
   private docsDir: string;
   private indexFile: string;
   private prDataFile: string;
-
-  constructor(docsDir: string, indexFile: string) {
+  private stateFile: string;
+  private componentsDir: string;
+  private weeklyDir: string;
+  private releasesDir: string;
+  private trivialPRMode: TrivialPRMode;
+  private feedItemLimit: number;
+
+  constructor(docsDir: string, indexFile: string, options: FileManagerOptions = {}) {
     this.docsDir = docsDir;
     this.indexFile = indexFile;
+    this.trivialPRMode = options.trivialPRMode ?? "compact";
+    this.feedItemLimit = options.feedItemLimit ?? DEFAULT_FEED_ITEM_LIMIT;
+    if (!Number.isInteger(this.feedItemLimit) || this.feedItemLimit < 1) {
+      throw new Error(`Feed item limit must be a positive integer (got ${this.feedItemLimit})`);
+    }
     this.prDataFile = join(docsDir, "..", "pr-data.json");
+    this.stateFile = join(docsDir, "..", "collector-state.json");
+    this.componentsDir = join(docsDir, "..", "components");
+    this.weeklyDir = join(docsDir, "..", "weekly");
+    this.releasesDir = join(docsDir, "..", "releases");
+  }
+
+  private isListed(record: StoredPR): boolean {
+    return isListed(record, this.trivialPRMode);
   }
 
   /**
-   * Get existing PR numbers from monthly file
+   * Read collector state, or null when the state file is missing or unreadable
    */
-  getExistingPRNumbers(): Set<number> {
-    const filename = getMonthlyFilename();
-    const filepath = join(this.docsDir, filename);
+  readCollectorState(): CollectorState | null {
+    if (!existsSync(this.stateFile)) {
+      return null;
+    }
 
-    if (!existsSync(filepath)) {
-      return new Set();
+    try {
+      const state = JSON.parse(readFileSync(this.stateFile, "utf-8")) as Partial<CollectorState>;
+      if (typeof state.lastMergedAt !== "string" || Number.isNaN(Date.parse(state.lastMergedAt))) {
+        console.warn(`Ignoring collector state without a valid lastMergedAt: ${this.stateFile}`);
+        return null;
+      }
+      return { lastMergedAt: state.lastMergedAt, lastRunAt: state.lastRunAt ?? "" };
+    } catch (error) {
+      console.error(
+        `Error reading collector state: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      return null;
     }
+  }
 
-    const content = readFileSync(filepath, "utf-8");
+  /**
+   * Save collector state
+   */
+  saveCollectorState(state: CollectorState): void {
+    writeFileSync(this.stateFile, `${JSON.stringify(state, null, 2)}\n`, "utf-8");
+    console.log(`Saved collector state (lastMergedAt: ${state.lastMergedAt})`);
+  }
 
-    // Extract PR numbers using regex: ## [#123](url) Title
-    const prNumberRegex = /## \[#(\d+)\]/g;
+  /**
+   * Get PR numbers already published in the monthly files
+   */
+  getExistingPRNumbers(): Set<number> {
     const existingPRs = new Set<number>();
 
-    const matches = content.matchAll(prNumberRegex);
-    for (const match of matches) {
-      existingPRs.add(Number.parseInt(match[1], 10));
+    for (const { content } of this.readMonthlyPages()) {
+      for (const prNumber of extractPRNumbers(content)) {
+        existingPRs.add(prNumber);
+      }
     }
 
     return existingPRs;
   }
 
   /**
-   * Update monthly markdown file (VitePress format)
+   * Check that every entry of the monthly pages is in the store (migrate imports older pages).
+   * Pages, indexes and feeds are rendered from the store, so they would drop the others.
    */
-  updateMonthlyFile(entries: string[]): void {
-    if (entries.length === 0) {
-      console.log("No new PRs to add");
-      return;
+  checkPagesInStore(store: PRStore): boolean {
+    const storedPRNumbers = store.getPRNumbers();
+    const unstored = Array.from(this.getExistingPRNumbers())
+      .filter((prNumber) => !storedPRNumbers.has(prNumber))
+      .sort((a, b) => a - b);
+    if (unstored.length > 0) {
+      console.error(
+        `Error: ${unstored.length} entries of the monthly pages are not in the PR store yet (e.g., #${unstored[0]}), run \`npm run migrate\` first`,
+      );
+      return false;
     }
+    return true;
+  }
 
+  /**
+   * Read all monthly markdown files, oldest first
+   */
+  readMonthlyPages(): Array<{ filename: string; content: string }> {
+    if (!existsSync(this.docsDir)) {
+      return [];
+    }
+
+    return this.listMonthlyFiles().map((filename) => ({
+      filename,
+      content: readFileSync(join(this.docsDir, filename), "utf-8"),
+    }));
+  }
+
+  /**
+   * Render the monthly markdown file (VitePress format) from store records.
+   * Returns false when the existing page has entries unknown to the store (`storedPRNumbers`):
+   * it is left untouched so content not yet imported into the store is never lost.
+   * Entries stored under another month are fine: they move to the page of their merge month.
+   */
+  renderMonthlyFile(
+    monthKey: string,
+    records: StoredPR[],
+    storedPRNumbers = new Set(records.map((record) => record.number)),
+  ): boolean {
     // Ensure docs/monthly directory exists
     if (!existsSync(this.docsDir)) {
       mkdirSync(this.docsDir, { recursive: true });
     }
 
-    const filename = getMonthlyFilename();
+    const filename = `${monthKey}.md`;
     const filepath = join(this.docsDir, filename);
-    const { year, month } = getYearMonth();
 
-    let frontmatter = "";
-    let header = "";
-    let existingContent = "";
-
-    // Read existing content or create new file
     if (existsSync(filepath)) {
-      const content = readFileSync(filepath, "utf-8");
-      console.log(`Updating existing file: ${filename}`);
-
-      // Extract frontmatter if exists
-      const frontmatterMatch = content.match(/^---\n([\s\S]*?)\n---\n/);
-      if (frontmatterMatch) {
-        // Update lastUpdated in frontmatter
-        const existingFrontmatter = frontmatterMatch[1];
-        const updatedFrontmatter = existingFrontmatter.replace(
-          /lastUpdated: .*/,
-          `lastUpdated: ${new Date().toISOString().split("T")[0]}`,
+      const missing = Array.from(extractPRNumbers(readFileSync(filepath, "utf-8"))).filter(
+        (prNumber) => !storedPRNumbers.has(prNumber),
+      );
+      if (missing.length > 0) {
+        console.warn(
+          `Skipping ${filename}: ${missing.length} entries are not in the PR store yet (e.g., #${missing[0]}), run \`npm run migrate\` first`,
         );
-        frontmatter = `---\n${updatedFrontmatter}\n---\n\n`;
-
-        // Extract content after frontmatter
-        const contentAfterFrontmatter = content.substring(frontmatterMatch[0].length);
-
-        // Split header and existing content
-        // Note: Skip leading whitespace before matching header
-        const headerMatch = contentAfterFrontmatter.match(/^\s*(# .*?\n\n> .*?\n\n)/);
-        if (headerMatch) {
-          header = headerMatch[1];
-          existingContent = contentAfterFrontmatter.substring(headerMatch[0].length);
-        } else {
-          existingContent = contentAfterFrontmatter;
-        }
-      } else {
-        // No frontmatter, treat entire content as existing
-        existingContent = content;
+        return false;
       }
-    } else {
-      // Create new file with frontmatter
-      frontmatter = `---
-title: ${year}年 ${month}月
-description: Ruby on Rails PR Digest - ${year}年 ${month}月にマージされたPRの要約
-lastUpdated: ${new Date().toISOString().split("T")[0]}
----
+    }
 
-`;
-      header = `# Ruby on Rails PR Digest - ${year}年 ${month}月
+    const listed = records.filter((record) => this.isListed(record));
+    const entries = listed.map((record) =>
+      formatPREntry(toEntryPR(record), record.summary, record.components, record),
+    );
+    const breakingChanges = listed
+      .filter(isBreakingOrDeprecation)
+      .map((record) => formatBreakingChangeItem(record, record.summary, record));
+    const otherChanges =
+      this.trivialPRMode === "compact"
+        ? records.flatMap((record) =>
+            record.trivial ? [formatTrivialPRItem(record, record.trivial)] : [],
+          )
+        : [];
+    writeFileSync(
+      filepath,
+      formatMonthlyPage(parseMonthKey(monthKey), entries, new Date(), {
+        highlights: formatMonthlyHighlights(computeMonthlyHighlights(listed)),
+        breakingChanges,
+        otherChanges,
+      }),
+      "utf-8",
+    );
+    console.log(`Rendered ${records.length} PRs: ${filepath}`);
+    return true;
+  }
 
-> このページは [rails/rails](https://github.com/rails/rails) リポジトリにマージされたPull Requestを自動的に収集し、AIで要約したものです。
+  /**
+   * Publish from the store: render the monthly and weekly pages of the given months (YYYY-MM),
+   * then regenerate the indexes, the release pages and the feed data.
+   * Returns false, writing nothing, when the monthly pages have entries unknown to the store.
+   */
+  publish(
+    store: PRStore,
+    monthKeys: string[],
+    weeklyOverviews?: WeeklyOverviewStore,
+    releases: Release[] = [],
+  ): boolean {
+    if (!this.checkPagesInStore(store)) {
+      return false;
+    }
 
-`;
-      console.log(`Creating new file: ${filename}`);
+    const storedPRNumbers = store.getPRNumbers();
+    for (const monthKey of monthKeys) {
+      this.renderMonthlyFile(monthKey, store.getMonth(monthKey), storedPRNumbers);
     }
 
-    // Prepend new entries to existing content
-    const newContent = `${frontmatter + header + entries.join("\n")}\n${existingContent}`;
+    this.generateMonthlyIndex(store.listMonths());
+    this.renderWeeklyPages(store, monthKeys, weeklyOverviews);
+    this.renderComponentPages(store);
+    this.renderReleasePages(store, releases);
 
-    writeFileSync(filepath, newContent, "utf-8");
-    console.log(`Updated: ${filepath}`);
+    // Feeds will be generated at VitePress build time using buildEnd hook
+    this.savePRData(store.all().filter((record) => this.isListed(record)));
+    return true;
   }
 
   /**
-   * Generate index of monthly files
+   * List monthly markdown files (YYYY-MM.md), oldest first
    */
-  generateMonthlyIndex(): void {
-    console.log("Generating monthly file index...");
+  private listMonthlyFiles(): string[] {
+    return readdirSync(this.docsDir)
+      .filter((f) => /^\d{4}-\d{2}\.md$/.test(f))
+      .sort();
+  }
 
-    if (!existsSync(this.docsDir)) {
-      console.log("No monthly directory found");
-      return;
-    }
+  /**
+   * Generate index of monthly files from the months (YYYY-MM) present in the store
+   */
+  generateMonthlyIndex(monthKeys: string[]): void {
+    console.log("Generating monthly file index...");
 
-    // Read all .md files from monthly directory
-    const files = readdirSync(this.docsDir)
-      .filter((f) => f.endsWith(".md"))
+    // Most recent first
+    const indexData: MonthlyIndexEntry[] = [...monthKeys]
       .sort()
-      .reverse(); // Most recent first
-
-    // Generate index data
-    const indexData: MonthlyIndexEntry[] = files
-      .map((filename) => {
-        const match = filename.match(/(\d{4})-(\d{2})\.md/);
-        if (match) {
-          const year = match[1];
-          const month = Number.parseInt(match[2], 10);
-          return {
-            filename,
-            year,
-            month,
-            title: `${year}年 ${month}月`,
-            url: `monthly/${filename}`,
-          };
-        }
-        return null;
-      })
-      .filter((item): item is MonthlyIndexEntry => item !== null);
+      .reverse()
+      .map((monthKey) => {
+        const { year, month } = parseMonthKey(monthKey);
+        const filename = `${monthKey}.md`;
+        return {
+          filename,
+          year: String(year),
+          month,
+          title: `${year}年 ${month}月`,
+          url: `monthly/${filename}`,
+        };
+      });
 
     // Write index file
     writeFileSync(this.indexFile, JSON.stringify(indexData, null, 2), "utf-8");
@@ -215,135 +399,156 @@ lastUpdated: ${new Date().toISOString().split("T")[0]}
   }
 
   /**
-   * Extract PR data from all monthly markdown files and save to JSON
+   * Save the latest PRs (overall and per component) to JSON for the feeds
    */
-  extractAndSavePRsFromMonthlyFiles(): void {
-    console.log("Extracting PR data from monthly markdown files...");
-
-    if (!existsSync(this.docsDir)) {
-      console.log("Monthly directory not found, skipping PR extraction");
-      return;
+  savePRData(records: StoredPR[]): void {
+    // Sort by merged date (newest first)
+    const sortedRecords = [...records].sort(
+      (a, b) => Date.parse(b.mergedAt) - Date.parse(a.mergedAt),
+    );
+    const sortedPRs = sortedRecords.slice(0, this.feedItemLimit).map(toPRData);
+
+    const byComponent: Record<string, ComponentFeedData> = {};
+    for (const component of COMPONENT_KEYS) {
+      const items = sortedRecords
+        .filter((record) => record.components.includes(component))
+        .slice(0, this.feedItemLimit)
+        .map(toPRData);
+      if (items.length > 0) {
+        byComponent[component] = { name: getComponentName(component), items };
+      }
     }
 
-    try {
-      const files = readdirSync(this.docsDir)
-        .filter((f) => f.endsWith(".md") && f !== "index.md")
-        .sort()
-        .reverse(); // Most recent first
-
-      const allPRs: PRData[] = [];
-
-      for (const filename of files) {
-        const filepath = join(this.docsDir, filename);
-        const content = readFileSync(filepath, "utf-8");
-        const prs = this.extractPRsFromMarkdown(content, filename);
-        allPRs.push(...prs);
-      }
+    const dataStore: PRDataStore = {
+      lastUpdated: new Date().toISOString(),
+      totalCount: sortedPRs.length,
+      items: sortedPRs,
+      byComponent,
+      trivialPRMode: this.trivialPRMode,
+    };
 
-      // Sort by merged date (newest first) and limit to 50
-      const sortedPRs = allPRs
-        .sort((a, b) => {
-          const dateA = new Date(a.mergedAt).getTime();
-          const dateB = new Date(b.mergedAt).getTime();
-          return dateB - dateA;
-        })
-        .slice(0, 50);
-
-      const dataStore: PRDataStore = {
-        lastUpdated: new Date().toISOString(),
-        totalCount: sortedPRs.length,
-        items: sortedPRs,
-      };
-
-      writeFileSync(this.prDataFile, JSON.stringify(dataStore, null, 2), "utf-8");
-      console.log(`Extracted and saved ${sortedPRs.length} PRs from monthly files`);
-    } catch (error) {
-      console.error(
-        `Error extracting PRs from monthly files: ${error instanceof Error ? error.message : String(error)}`,
-      );
-    }
+    writeFileSync(this.prDataFile, JSON.stringify(dataStore, null, 2), "utf-8");
+    console.log(`Saved ${sortedPRs.length} PRs for the feeds: ${this.prDataFile}`);
   }
 
   /**
-   * Extract PR entries from markdown content
+   * Render a page per Rails component listing its PRs across all months, and their index
    */
-  private extractPRsFromMarkdown(content: string, filename: string): PRData[] {
-    const prs: PRData[] = [];
-
-    // Split content by PR entries (## [#...] header pattern)
-    const prPattern = /## \[#(\d+)\]\((https:\/\/github\.com\/rails\/rails\/pull\/\d+)\) (.+?)$/gm;
-    const matches = Array.from(content.matchAll(prPattern));
-
-    for (let i = 0; i < matches.length; i++) {
-      const match = matches[i];
-      const prNumber = Number.parseInt(match[1], 10);
-      const prUrl = match[2];
-      const prTitle = match[3].trim();
-
-      // Get the content between this PR and the next PR (or end of file)
-      const startIndex = match.index || 0;
-      const endIndex =
-        i < matches.length - 1 ? matches[i + 1].index || content.length : content.length;
-      const prContent = content.substring(startIndex, endIndex);
-
-      // Extract metadata line
-      const metadataPattern = /\*\*マージ日\*\*: (.+?) \| \*\*作成者\*\*: \[@(.+?)\]\((.+?)\)/;
-      const metadataMatch = prContent.match(metadataPattern);
-
-      if (!metadataMatch) {
-        console.warn(`Could not extract metadata for PR #${prNumber} in ${filename}`);
-        continue;
+  renderComponentPages(store: PRStore): void {
+    if (!existsSync(this.componentsDir)) {
+      mkdirSync(this.componentsDir, { recursive: true });
+    }
+
+    const rendered: { component: RailsComponent; count: number }[] = [];
+    for (const component of COMPONENT_KEYS) {
+      const records = store.getComponent(component).filter((record) => this.isListed(record));
+      if (records.length === 0) continue;
+
+      // Records are newest first, so months come out in order
+      const months = new Map<string, string[]>();
+      for (const record of records) {
+        const monthKey = getMonthKey(new Date(record.mergedAt));
+        const items = months.get(monthKey) ?? [];
+        items.push(formatComponentListItem(record, record.summary));
+        months.set(monthKey, items);
       }
 
-      const mergedDateStr = metadataMatch[1].trim(); // e.g., "2025/12/17"
-      const author = metadataMatch[2].trim();
-      const authorUrl = metadataMatch[3].trim();
+      const filepath = join(this.componentsDir, `${component}.md`);
+      const page = formatComponentPage(
+        component,
+        Array.from(months, ([monthKey, items]) => ({ monthKey, items })),
+      );
+      writeFileSync(filepath, page, "utf-8");
+      rendered.push({ component, count: records.length });
+    }
 
-      // Convert Japanese date format to ISO 8601
-      const mergedAt = this.convertJapaneseDateToISO(mergedDateStr);
+    writeFileSync(
+      join(this.componentsDir, "index.md"),
+      formatComponentIndexPage(rendered),
+      "utf-8",
+    );
+    console.log(`Rendered ${rendered.length} component pages: ${this.componentsDir}`);
+  }
 
-      // Extract summary (content after metadata line until ----)
-      const summaryStart = prContent.indexOf("\n\n", prContent.indexOf("**作成者**"));
-      const summaryEnd = prContent.indexOf("\n---", summaryStart);
+  /**
+   * Render the weekly pages (YYYY-Www.md) of the weeks in the given months, plus weeks
+   * without a page yet, then the weekly index
+   */
+  renderWeeklyPages(store: PRStore, monthKeys: string[], overviews?: WeeklyOverviewStore): void {
+    if (!existsSync(this.weeklyDir)) {
+      mkdirSync(this.weeklyDir, { recursive: true });
+    }
 
-      if (summaryStart === -1 || summaryEnd === -1) {
-        console.warn(`Could not extract summary for PR #${prNumber} in ${filename}`);
-        continue;
-      }
+    const weekKeys = new Set(getWeeksOfMonths(store, monthKeys));
+    const index: { weekKey: string; count: number }[] = [];
+    for (const weekKey of store.listWeeks()) {
+      const records = store.getWeek(weekKey).filter((record) => this.isListed(record));
+      if (records.length === 0) continue;
+      index.push({ weekKey, count: records.length });
 
-      const summary = prContent.substring(summaryStart, summaryEnd).trim();
+      const filepath = join(this.weeklyDir, `${weekKey}.md`);
+      if (!weekKeys.has(weekKey) && existsSync(filepath)) continue;
 
-      prs.push({
-        number: prNumber,
-        title: prTitle,
-        url: prUrl,
-        mergedAt,
-        author,
-        authorUrl,
-        summary,
-      });
+      const entries = records.map((record) =>
+        formatPREntry(toEntryPR(record), record.summary, record.components, record),
+      );
+      const overview = overviews?.get(weekKey)?.overview ?? null;
+      writeFileSync(filepath, formatWeeklyPage(weekKey, entries, overview), "utf-8");
+      console.log(`Rendered ${records.length} PRs: ${filepath}`);
     }
 
-    return prs;
+    writeFileSync(join(this.weeklyDir, "index.md"), formatWeeklyIndexPage(index), "utf-8");
+    console.log(`Rendered the weekly index with ${index.length} weeks: ${this.weeklyDir}`);
   }
 
   /**
-   * Convert Japanese date format (2025/12/17) to ISO 8601
+   * Render a page per Rails version listing the PRs that shipped in it, plus a page per branch
+   * of the changes not released yet, and their index. Every page is rendered again, since a new
+   * release moves PRs between pages; pages of versions or branches without PRs are removed.
    */
-  private convertJapaneseDateToISO(dateStr: string): string {
-    try {
-      // Parse Japanese format: "2025/12/17" or "2025/12/17 10:30"
-      const parts = dateStr.split(/[/\s:]/);
-      const year = Number.parseInt(parts[0], 10);
-      const month = Number.parseInt(parts[1], 10);
-      const day = Number.parseInt(parts[2], 10);
-
-      // Create date object (assume UTC)
-      const date = new Date(Date.UTC(year, month - 1, day));
-      return date.toISOString();
-    } catch (error) {
-      console.error(`Error converting date "${dateStr}": ${error}`);
-      return new Date().toISOString();
+  renderReleasePages(store: PRStore, releases: Release[]): void {
+    if (releases.length === 0) {
+      console.log("No releases known, skipping release pages");
+      return;
+    }
+
+    if (!existsSync(this.releasesDir)) {
+      mkdirSync(this.releasesDir, { recursive: true });
     }
+
+    const groups = groupByRelease(
+      store.all().filter((record) => this.isListed(record)),
+      releases,
+    );
+    for (const { records, slug, ...group } of groups) {
+      const sections = CHANGE_TYPE_KEYS.map((changeType) => ({
+        changeType,
+        items: records
+          .filter((record) => record.changeType === changeType)
+          .map((record) => formatReleaseListItem(record, record.summary)),
+      })).filter(({ items }) => items.length > 0);
+      writeFileSync(
+        join(this.releasesDir, `${slug}.md`),
+        formatReleasePage(group, sections),
+        "utf-8",
+      );
+    }
+
+    const pages = new Set(groups.map(({ slug }) => `${slug}.md`));
+    for (const filename of readdirSync(this.releasesDir)) {
+      if (filename.endsWith(".md") && filename !== "index.md" && !pages.has(filename)) {
+        unlinkSync(join(this.releasesDir, filename));
+        console.log(`Removed release page without PRs: ${filename}`);
+      }
+    }
+
+    writeFileSync(
+      join(this.releasesDir, "index.md"),
+      formatReleaseIndexPage(
+        groups.map(({ records, ...group }) => ({ ...group, count: records.length })),
+      ),
+      "utf-8",
+    );
+    console.log(`Rendered ${groups.length} release pages: ${this.releasesDir}`);
   }
 }
@@ -1,5 +1,30 @@
 import { describe, expect, it } from "vitest";
-import { formatPREntry, getMonthlyFilename, getYearMonth, sanitizeForVitePress } from "./formatter";
+import {
+  formatBreakingChangeItem,
+  formatChangeBadges,
+  formatComponentIndexPage,
+  formatComponentListItem,
+  formatComponentPage,
+  formatMonthlyHighlights,
+  formatMonthlyPage,
+  formatPREntry,
+  formatReleaseIndexPage,
+  formatReleaseListItem,
+  formatReleasePage,
+  formatSummary,
+  formatTrivialPRItem,
+  formatWeeklyIndexPage,
+  formatWeeklyPage,
+  formatWeekRange,
+  getMonthKey,
+  getMonthlyFilename,
+  getWeekKey,
+  getWeekRange,
+  getYearMonth,
+  parseMonthKey,
+  parseWeekKey,
+  sanitizeForVitePress,
+} from "./formatter";
 
 describe("formatter", () => {
   describe("getYearMonth", () => {
@@ -7,8 +32,8 @@ describe("formatter", () => {
       const now = new Date();
       const result = getYearMonth();
 
-      expect(result.year).toBe(now.getFullYear());
-      expect(result.month).toBe(now.getMonth() + 1);
+      expect(result.year).toBe(now.getUTCFullYear());
+      expect(result.month).toBe(now.getUTCMonth() + 1);
     });
 
     it("should return correct year and month for specific date", () => {
@@ -36,11 +61,70 @@ describe("formatter", () => {
     });
   });
 
+  describe("getMonthKey", () => {
+    it("should return zero-padded year and month", () => {
+      expect(getMonthKey(new Date("2025-03-15"))).toBe("2025-03");
+    });
+
+    it("should use the UTC month of the date", () => {
+      expect(getMonthKey(new Date("2026-08-31T20:00:00Z"))).toBe("2026-08");
+      expect(getMonthKey(new Date("2026-09-01T08:00:00+09:00"))).toBe("2026-08");
+    });
+  });
+
+  describe("parseMonthKey", () => {
+    it("should parse year and month", () => {
+      expect(parseMonthKey("2025-03")).toEqual({ year: 2025, month: 3 });
+    });
+  });
+
+  describe("getWeekKey", () => {
+    it("should return the ISO 8601 week with a zero-padded number", () => {
+      expect(getWeekKey(new Date("2025-01-15T00:00:00Z"))).toBe("2025-W03");
+      expect(getWeekKey(new Date("2025-03-30T00:00:00Z"))).toBe("2025-W13");
+      expect(getWeekKey(new Date("2025-03-31T00:00:00Z"))).toBe("2025-W14");
+    });
+
+    it("should use the UTC day of the date", () => {
+      expect(getWeekKey(new Date("2025-03-30T23:00:00Z"))).toBe("2025-W13");
+      expect(getWeekKey(new Date("2025-03-31T08:00:00+09:00"))).toBe("2025-W13");
+    });
+
+    it("should use the year of the week's Thursday around new year", () => {
+      expect(getWeekKey(new Date("2024-12-30T00:00:00Z"))).toBe("2025-W01");
+      expect(getWeekKey(new Date("2021-01-03T00:00:00Z"))).toBe("2020-W53");
+      expect(getWeekKey(new Date("2027-01-03T00:00:00Z"))).toBe("2026-W53");
+    });
+  });
+
+  describe("parseWeekKey", () => {
+    it("should parse year and week", () => {
+      expect(parseWeekKey("2025-W03")).toEqual({ year: 2025, week: 3 });
+    });
+  });
+
+  describe("getWeekRange", () => {
+    it("should return the Monday and Sunday of the week", () => {
+      expect(getWeekRange("2025-W03")).toEqual({
+        start: new Date("2025-01-13T00:00:00Z"),
+        end: new Date("2025-01-19T00:00:00Z"),
+      });
+      expect(getWeekRange("2026-W01")).toEqual({
+        start: new Date("2025-12-29T00:00:00Z"),
+        end: new Date("2026-01-04T00:00:00Z"),
+      });
+    });
+
+    it("should format the range", () => {
+      expect(formatWeekRange("2025-W03")).toBe("2025/1/13〜2025/1/19");
+    });
+  });
+
   describe("getMonthlyFilename", () => {
     it("should return correctly formatted filename for current month", () => {
       const now = new Date();
-      const year = now.getFullYear();
-      const month = String(now.getMonth() + 1).padStart(2, "0");
+      const year = now.getUTCFullYear();
+      const month = String(now.getUTCMonth() + 1).padStart(2, "0");
       const expected = `${year}-${month}.md`;
 
       const result = getMonthlyFilename();
@@ -79,6 +163,35 @@ describe("formatter", () => {
       expect(result).toContain("---");
     });
 
+    it("should show the UTC merge date, as the markdown parser reads it back", () => {
+      const mockPR = {
+        number: 12345,
+        title: "Fix bug in authentication",
+        html_url: "https://github.com/rails/rails/pull/12345",
+        merged_at: "2026-08-31T20:00:00Z",
+        user: null,
+      };
+
+      expect(formatPREntry(mockPR, "Summary")).toContain("**マージ日**: 2026/8/31 |");
+    });
+
+    it("should show the branch of PRs not merged into main", () => {
+      const mockPR = {
+        number: 12346,
+        title: "Fix bug in authentication",
+        html_url: "https://github.com/rails/rails/pull/12346",
+        merged_at: "2025-11-24T10:00:00Z",
+        user: null,
+        base_ref: "8-0-stable",
+        backport_of: 12345,
+      };
+
+      expect(formatPREntry(mockPR, "Summary")).toContain(
+        " | **ブランチ**: 8-0-stable（[#12345](https://github.com/rails/rails/pull/12345) のバックポート）\n",
+      );
+      expect(formatPREntry({ ...mockPR, base_ref: "main" }, "Summary")).not.toContain("ブランチ");
+    });
+
     it("should handle PR with null merged_at", () => {
       const mockPR = {
         number: 12345,
@@ -118,6 +231,37 @@ describe("formatter", () => {
       expect(result).not.toContain("Array<String>");
     });
 
+    it("should list the components of the PR", () => {
+      const pr = {
+        number: 1,
+        title: "Test",
+        html_url: "https://github.com/rails/rails/pull/1",
+        merged_at: "2025-11-24T10:00:00Z",
+        user: null,
+      };
+
+      const result = formatPREntry(pr, "Summary", ["actionpack", "activerecord"]);
+
+      expect(result).toContain("[@unknown](#) | **コンポーネント**: Action Pack, Active Record\n");
+      expect(formatPREntry(pr, "Summary")).not.toContain("コンポーネント");
+    });
+
+    it("should put the change badges between the title and the anchor", () => {
+      const pr = {
+        number: 1,
+        title: "Test",
+        html_url: "https://github.com/rails/rails/pull/1",
+        merged_at: "2025-11-24T10:00:00Z",
+        user: null,
+      };
+
+      const result = formatPREntry(pr, "Summary", [], { changeType: "bugfix", breaking: false });
+
+      expect(result).toContain(
+        '## [#1](https://github.com/rails/rails/pull/1) Test <Badge type="info" text="バグ修正" /> {#pr-1}',
+      );
+    });
+
     it("should handle PR with null user", () => {
       const mockPR = {
         number: 12345,
@@ -135,6 +279,387 @@ describe("formatter", () => {
     });
   });
 
+  describe("formatSummary", () => {
+    const summary = {
+      overview: "Adds an option.",
+      details: "Details of the change.",
+      impact: "No breaking changes.",
+      references: ["https://github.com/rails/rails/issues/100"],
+      codeSamples: [{ language: "ruby", code: "Post.where(id: 1)", description: "Usage:" }],
+      changeType: "feature" as const,
+      breaking: false,
+    };
+
+    it("should render structured summaries with fixed sections", () => {
+      expect(formatSummary(summary)).toBe(
+        [
+          "### 概要",
+          "",
+          "Adds an option.",
+          "",
+          "### 変更内容の詳細",
+          "",
+          "Details of the change.",
+          "",
+          "Usage:",
+          "",
+          "```ruby",
+          "Post.where(id: 1)",
+          "```",
+          "",
+          "### 影響範囲・注意点",
+          "",
+          "No breaking changes.",
+          "",
+          "### 参考情報",
+          "",
+          "- https://github.com/rails/rails/issues/100",
+        ].join("\n"),
+      );
+    });
+
+    it("should omit references when there are none", () => {
+      expect(formatSummary({ ...summary, references: [] })).not.toContain("### 参考情報");
+    });
+
+    it("should use a longer fence for code containing backticks", () => {
+      const result = formatSummary({
+        ...summary,
+        codeSamples: [{ language: "markdown", code: "```ruby\nfoo\n```", description: "" }],
+      });
+
+      expect(result).toContain("````markdown\n```ruby\nfoo\n```\n````");
+    });
+
+    it("should return plain Markdown summaries as-is", () => {
+      expect(formatSummary("1. 概要\n\nSummary")).toBe("1. 概要\n\nSummary");
+    });
+  });
+
+  describe("formatChangeBadges", () => {
+    it("should render a badge for the change type", () => {
+      expect(formatChangeBadges({ changeType: "deprecation", breaking: false })).toBe(
+        '<Badge type="warning" text="非推奨化" />',
+      );
+    });
+
+    it("should add a breaking change badge, except for removals", () => {
+      expect(formatChangeBadges({ changeType: "feature", breaking: true })).toBe(
+        '<Badge type="tip" text="新機能" /> <Badge type="danger" text="破壊的変更" />',
+      );
+      expect(formatChangeBadges({ changeType: "removal", breaking: true })).toBe(
+        '<Badge type="danger" text="削除" />',
+      );
+    });
+  });
+
+  describe("formatBreakingChangeItem", () => {
+    it("should link to the entry on the same page", () => {
+      const change = { changeType: "removal" as const, breaking: true };
+
+      expect(
+        formatBreakingChangeItem({ number: 1, title: "Remove [foo]" }, "Summary", change),
+      ).toBe('- <Badge type="danger" text="削除" /> [#1 Remove \\[foo\\]](#pr-1)');
+    });
+  });
+
+  describe("formatTrivialPRItem", () => {
+    it("should list the PR on one line with the reason", () => {
+      const pr = { number: 1, title: "Fix typo in Array<String>", url: "url", author: null };
+
+      expect(formatTrivialPRItem(pr, "docs")).toBe(
+        "- [#1](url) Fix typo in Array&lt;String> (@unknown, ドキュメントのみの変更)",
+      );
+    });
+  });
+
+  describe("formatComponentListItem", () => {
+    const pr = {
+      number: 1,
+      title: "Fix [bug] in Array<String>",
+      mergedAt: "2026-08-10T10:00:00Z",
+      author: "testuser",
+    };
+
+    it("should link to the entry on the monthly page", () => {
+      expect(formatComponentListItem(pr, "Summary")).toBe(
+        "- [#1 Fix \\[bug\\] in Array&lt;String>](/monthly/2026-08#pr-1) (@testuser)",
+      );
+    });
+
+    it("should show the overview of structured summaries", () => {
+      const summary = {
+        overview: "Fixes a bug.\nReally.",
+        details: "Details",
+        impact: "Impact",
+        references: [],
+        codeSamples: [],
+        changeType: "bugfix" as const,
+        breaking: false,
+      };
+
+      expect(formatComponentListItem(pr, summary)).toMatch(/\n {2}Fixes a bug\. Really\.$/);
+    });
+  });
+
+  describe("formatComponentPage", () => {
+    it("should group items by month with the feed link", () => {
+      const page = formatComponentPage(
+        "activerecord",
+        [
+          { monthKey: "2026-08", items: ["- item 2", "- item 3"] },
+          { monthKey: "2026-07", items: ["- item 1"] },
+        ],
+        new Date("2026-08-20T00:00:00Z"),
+      );
+
+      expect(page).toContain("title: Active Record\n");
+      expect(page).toContain("（3件）。[RSSフィード](/feeds/activerecord.xml)");
+      expect(page.indexOf("## 2026年 8月\n\n- item 2\n- item 3")).toBeLessThan(
+        page.indexOf("## 2026年 7月\n\n- item 1"),
+      );
+    });
+  });
+
+  describe("formatComponentIndexPage", () => {
+    it("should link to each component page and feed", () => {
+      expect(formatComponentIndexPage([{ component: "activerecord", count: 2 }])).toContain(
+        "- [Active Record](/components/activerecord) (2件) - [RSS](/feeds/activerecord.xml)",
+      );
+    });
+  });
+
+  describe("formatReleaseListItem", () => {
+    it("should mark breaking changes and link to the original PR of a backport", () => {
+      const pr = {
+        number: 2,
+        title: "Change default",
+        mergedAt: "2025-10-25T10:00:00Z",
+        author: "testuser",
+        breaking: true,
+        backportOf: 1,
+      };
+
+      expect(formatReleaseListItem(pr, "Summary")).toBe(
+        '- [#2 Change default](/monthly/2025-10#pr-2) (@testuser)（[#1](https://github.com/rails/rails/pull/1) のバックポート） <Badge type="danger" text="破壊的変更" />',
+      );
+    });
+  });
+
+  describe("formatReleasePage", () => {
+    const version = {
+      version: "8.1.1",
+      major: 8,
+      minor: 1,
+      patch: 1,
+      branch: "8-1-stable",
+      firstPublishedAt: "2025-10-28T20:00:00Z",
+      tagName: "v8.1.1",
+      releasedAt: "2025-10-28T20:00:00Z",
+    };
+
+    it("should group the PRs of a version by change type", () => {
+      const page = formatReleasePage(
+        { branch: "8-1-stable", version, since: null },
+        [
+          { changeType: "feature", items: ["- item 1"] },
+          { changeType: "bugfix", items: ["- item 2", "- item 3"] },
+        ],
+        new Date("2025-11-01T00:00:00Z"),
+      );
+
+      expect(page).toContain("title: Rails 8.1.1\n");
+      expect(page).toContain(
+        "[v8.1.1](https://github.com/rails/rails/releases/tag/v8.1.1) としてリリースされた Rails 8.1.1 に含まれるPRの一覧です（3件）",
+      );
+      expect(page).toContain("## 新機能\n\n- item 1\n\n## バグ修正\n\n- item 2\n- item 3\n");
+    });
+
+    it("should describe unreleased changes as the changes since the latest version", () => {
+      const page = formatReleasePage({ branch: "main", version: null, since: "8.1.0" }, [
+        { changeType: "feature", items: ["- item 1"] },
+      ]);
+
+      expect(page).toContain("# main（8.1.0 以降の変更）");
+      expect(page).toContain(
+        "8.1.0 のブランチ作成以降に `main` にマージされ、まだリリースされていないPR",
+      );
+    });
+  });
+
+  describe("formatReleaseIndexPage", () => {
+    it("should list unreleased changes before released versions", () => {
+      const page = formatReleaseIndexPage([
+        { slug: "main", branch: "main", version: null, since: null, count: 2 },
+        {
+          slug: "v8-1-0",
+          branch: "8-1-stable",
+          version: {
+            version: "8.1.0",
+            major: 8,
+            minor: 1,
+            patch: 0,
+            branch: "8-1-stable",
+            firstPublishedAt: "2025-09-04T20:00:00Z",
+            tagName: "v8.1.0",
+            releasedAt: "2025-10-22T20:00:00Z",
+          },
+          since: null,
+          count: 5,
+        },
+      ]);
+
+      expect(page).toContain("## 未リリース\n\n- [main（未リリース）](/releases/main) (2件)\n");
+      expect(page).toContain("## リリース済み\n\n- [Rails 8.1.0](/releases/v8-1-0) (5件)\n");
+    });
+  });
+
+  describe("formatWeeklyPage", () => {
+    it("should put the overview of the week above the entries", () => {
+      const page = formatWeeklyPage(
+        "2025-W03",
+        ["\n## [#1](url) First\n", "\n## [#2](url) Second\n"],
+        "- Array<String> を返すように変更 (#1)",
+        new Date("2025-01-20T00:00:00Z"),
+      );
+
+      expect(page).toContain("title: 2025年 第3週\n");
+      expect(page).toContain("lastUpdated: 2025-01-20\n");
+      expect(page).toContain("# Ruby on Rails PR Digest - 2025年 第3週");
+      expect(page).toContain("> 2025/1/13〜2025/1/19 に");
+      expect(page).toContain("（2件）");
+      expect(page).toContain(
+        "## 今週の注目ポイント\n\n- Array&lt;String> を返すように変更 (#1)\n\n---\n",
+      );
+      expect(page.indexOf("今週の注目ポイント")).toBeLessThan(page.indexOf("## [#1]"));
+    });
+
+    it("should leave out the overview section when there is none", () => {
+      const page = formatWeeklyPage("2025-W03", ["\n## [#1](url) First\n"], null);
+
+      expect(page).not.toContain("今週の注目ポイント");
+      expect(page).toContain("## [#1](url) First");
+    });
+  });
+
+  describe("formatWeeklyIndexPage", () => {
+    it("should link to each weekly page with its dates and count", () => {
+      expect(formatWeeklyIndexPage([{ weekKey: "2025-W03", count: 12 }])).toContain(
+        "- [2025年 第3週](/weekly/2025-W03) (2025/1/13〜2025/1/19、12件)",
+      );
+    });
+  });
+
+  describe("formatMonthlyPage", () => {
+    it("should include frontmatter, header and entries", () => {
+      const result = formatMonthlyPage(
+        { year: 2026, month: 8 },
+        ["\n## [#1](url) First\n", "\n## [#2](url) Second\n"],
+        new Date("2026-08-22T00:00:00Z"),
+      );
+
+      expect(result).toMatch(/^---\ntitle: 2026年 8月\n/);
+      expect(result).toContain("lastUpdated: 2026-08-22");
+      expect(result).toContain("# Ruby on Rails PR Digest - 2026年 8月");
+      expect(result.indexOf("## [#1]")).toBeLessThan(result.indexOf("## [#2]"));
+    });
+
+    it("should list breaking changes above the entries", () => {
+      const result = formatMonthlyPage(
+        { year: 2026, month: 8 },
+        ["\n## [#1](url) First\n"],
+        new Date("2026-08-22T00:00:00Z"),
+        { breakingChanges: ["- [#1 First](#pr-1)"] },
+      );
+
+      expect(result).toContain("## ⚠️ 破壊的変更・非推奨化\n\n- [#1 First](#pr-1)\n\n---\n");
+      expect(result.indexOf("破壊的変更")).toBeLessThan(result.indexOf("## [#1]"));
+    });
+
+    it("should put the highlights at the top, above breaking changes", () => {
+      const result = formatMonthlyPage(
+        { year: 2026, month: 8 },
+        ["\n## [#1](url) First\n"],
+        new Date("2026-08-22T00:00:00Z"),
+        {
+          highlights: "## 📊 今月のハイライト\n\n**変更の種類**（全1件）: 削除 1件\n",
+          breakingChanges: ["- [#1 First](#pr-1)"],
+        },
+      );
+
+      expect(result).toContain(
+        "**変更の種類**（全1件）: 削除 1件\n\n---\n\n## ⚠️ 破壊的変更・非推奨化\n",
+      );
+      expect(result.indexOf("今月のハイライト")).toBeGreaterThan(
+        result.indexOf("# Ruby on Rails PR Digest"),
+      );
+    });
+
+    it("should list other changes below the entries", () => {
+      const result = formatMonthlyPage(
+        { year: 2026, month: 8 },
+        ["\n## [#1](url) First\n\n---\n"],
+        new Date("2026-08-22T00:00:00Z"),
+        { otherChanges: ["- [#2](url) Fix typo"] },
+      );
+
+      expect(result).toMatch(/## \[#1\][\s\S]*\n## その他の変更\n\n- \[#2\]\(url\) Fix typo\n$/);
+      expect(result).not.toContain("破壊的変更");
+    });
+  });
+
+  describe("formatMonthlyHighlights", () => {
+    it("should format the counts, top changes per component and contributors", () => {
+      const result = formatMonthlyHighlights({
+        changeTypes: [
+          { changeType: "feature", count: 2 },
+          { changeType: "bugfix", count: 3 },
+        ],
+        components: [
+          {
+            component: "activerecord",
+            count: 4,
+            topChanges: [
+              { number: 2, title: "Add [option]", changeType: "feature", breaking: true },
+              { number: 1, title: "Fix bug", changeType: "bugfix", breaking: false },
+            ],
+          },
+        ],
+        contributors: [
+          { login: "alice", url: "https://github.com/alice", count: 3 },
+          { login: "bob", url: "https://github.com/bob", count: 2 },
+        ],
+        total: 5,
+      });
+
+      expect(result).toBe(
+        [
+          "## 📊 今月のハイライト",
+          "",
+          "**変更の種類**（全5件）: 新機能 2件 · バグ修正 3件",
+          "",
+          "### コンポーネント別の主な変更",
+          "",
+          "**Active Record**（4件）",
+          "",
+          '- <Badge type="tip" text="新機能" /> <Badge type="danger" text="破壊的変更" /> [#2 Add \\[option\\]](#pr-2)',
+          '- <Badge type="info" text="バグ修正" /> [#1 Fix bug](#pr-1)',
+          "",
+          "### 活発なコントリビューター",
+          "",
+          "[@alice](https://github.com/alice) 3件 · [@bob](https://github.com/bob) 2件",
+          "",
+        ].join("\n"),
+      );
+    });
+
+    it("should be empty for a month without PRs", () => {
+      expect(
+        formatMonthlyHighlights({ changeTypes: [], components: [], contributors: [], total: 0 }),
+      ).toBe("");
+    });
+  });
+
   describe("sanitizeForVitePress", () => {
     it("should escape Array<String> to Array&lt;String>", () => {
       expect(sanitizeForVitePress("Array<String>")).toBe("Array&lt;String>");
@@ -155,5 +680,35 @@ describe("formatter", () => {
     it("should escape closing tags like </Component>", () => {
       expect(sanitizeForVitePress("</Component>")).toBe("&lt;/Component>");
     });
+
+    it("should leave code spans as-is", () => {
+      expect(sanitizeForVitePress("`#<Proc:0x0001>` instead of Array<Proc>")).toBe(
+        "`#<Proc:0x0001>` instead of Array&lt;Proc>",
+      );
+      expect(sanitizeForVitePress("``a ` <Foo>`` and <Bar>")).toBe("``a ` <Foo>`` and &lt;Bar>");
+    });
+
+    it("should leave fenced code blocks as-is", () => {
+      const text = [
+        "Params<Hash>:",
+        "",
+        "```ruby",
+        "# => #<ActionController::Parameters {} permitted: false>",
+        "```",
+        "",
+        "~~~",
+        "<Foo>",
+        "~~~",
+        "After <Bar>",
+      ].join("\n");
+
+      expect(sanitizeForVitePress(text)).toBe(
+        text.replace("Params<Hash>", "Params&lt;Hash>").replace("After <Bar>", "After &lt;Bar>"),
+      );
+    });
+
+    it("should escape text after an unclosed backtick", () => {
+      expect(sanitizeForVitePress("a ` b <Foo>")).toBe("a ` b &lt;Foo>");
+    });
   });
 });
@@ -1,33 +1,233 @@
+import { type ChangeClassification, type ChangeType, getChangeTypeName } from "./change-types";
+import { FenceTracker, fenceFor } from "./code-blocks";
+import { getComponentName, type RailsComponent } from "./components";
+import type { MonthlyHighlights } from "./highlights";
+import { MAIN_BRANCH, type ReleaseGroup } from "./releases";
+import type { Summary } from "./summary-schema";
+import { TRIVIAL_REASONS, type TrivialReason } from "./triage";
+
 export interface YearMonth {
   year: number;
   month: number;
 }
 
 /**
- * Get year and month for a given date
+ * Get year and month for a given date (in UTC, so pages do not depend on the machine's timezone)
  */
 export function getYearMonth(date = new Date()): YearMonth {
   return {
-    year: date.getFullYear(),
-    month: date.getMonth() + 1,
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
   };
 }
 
 /**
- * Get filename for the current month
+ * Get month key (YYYY-MM) for a given date
  */
-export function getMonthlyFilename(date = new Date()): string {
+export function getMonthKey(date = new Date()): string {
   const { year, month } = getYearMonth(date);
   const monthStr = String(month).padStart(2, "0");
-  return `${year}-${monthStr}.md`;
+  return `${year}-${monthStr}`;
+}
+
+/**
+ * Parse month key (YYYY-MM) into year and month
+ */
+export function parseMonthKey(monthKey: string): YearMonth {
+  const [year, month] = monthKey.split("-");
+  return {
+    year: Number.parseInt(year, 10),
+    month: Number.parseInt(month, 10),
+  };
+}
+
+export interface YearWeek {
+  year: number;
+  week: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Get ISO 8601 week key (YYYY-Www) for a given date in UTC, e.g., 2025-W03.
+ * Weeks start on Monday and belong to the year of their Thursday.
+ */
+export function getWeekKey(date = new Date()): string {
+  const thursday = new Date(
+    Date.UTC(
+      date.getUTCFullYear(),
+      date.getUTCMonth(),
+      date.getUTCDate() - ((date.getUTCDay() + 6) % 7) + 3,
+    ),
+  );
+  const year = thursday.getUTCFullYear();
+  const dayOfYear = Math.round((thursday.getTime() - Date.UTC(year, 0, 1)) / DAY_MS);
+  const week = Math.floor(dayOfYear / 7) + 1;
+  return `${year}-W${String(week).padStart(2, "0")}`;
+}
+
+/**
+ * Parse week key (YYYY-Www) into year and week
+ */
+export function parseWeekKey(weekKey: string): YearWeek {
+  const [year, week] = weekKey.split("-W");
+  return {
+    year: Number.parseInt(year, 10),
+    week: Number.parseInt(week, 10),
+  };
+}
+
+/**
+ * Get the Monday and Sunday of a week (YYYY-Www), at midnight UTC
+ */
+export function getWeekRange(weekKey: string): { start: Date; end: Date } {
+  const { year, week } = parseWeekKey(weekKey);
+  // January 4th is always in week 1
+  const january4 = new Date(Date.UTC(year, 0, 4));
+  const monday = 4 - ((january4.getUTCDay() + 6) % 7) + (week - 1) * 7;
+  return {
+    start: new Date(Date.UTC(year, 0, monday)),
+    end: new Date(Date.UTC(year, 0, monday + 6)),
+  };
+}
+
+/**
+ * Format a date as YYYY/M/D in UTC, as convertJapaneseDateToISO reads it back
+ */
+export function formatJapaneseDate(date: Date): string {
+  return date.toLocaleDateString("ja-JP", { timeZone: "UTC" });
+}
+
+/**
+ * Format the dates of a week, e.g., 2025/1/13〜2025/1/19
+ */
+export function formatWeekRange(weekKey: string): string {
+  const { start, end } = getWeekRange(weekKey);
+  return `${formatJapaneseDate(start)}〜${formatJapaneseDate(end)}`;
+}
+
+/**
+ * Get the title of a week, e.g., 2025年 第3週
+ */
+export function getWeekTitle(weekKey: string): string {
+  const { year, week } = parseWeekKey(weekKey);
+  return `${year}年 第${week}週`;
+}
+
+/**
+ * Get filename for the current month
+ */
+export function getMonthlyFilename(date = new Date()): string {
+  return `${getMonthKey(date)}.md`;
+}
+
+// Inline code span: a backtick run closed by a run of the same length
+const CODE_SPAN_PATTERN = /(?<!`)(`+)(?!`)[\s\S]*?(?<!`)\1(?!`)/g;
+// Tags Vue would compile as components, e.g., <String or </Component
+const COMPONENT_TAG_PATTERN = /<(\/?)([A-Z])/g;
+
+/**
+ * Escape component-like tags in prose, outside its code spans
+ */
+function escapeComponentTags(prose: string): string {
+  let result = "";
+  let last = 0;
+  for (const match of prose.matchAll(CODE_SPAN_PATTERN)) {
+    result += prose.slice(last, match.index).replace(COMPONENT_TAG_PATTERN, "&lt;$1$2");
+    result += match[0];
+    last = match.index + match[0].length;
+  }
+  return result + prose.slice(last).replace(COMPONENT_TAG_PATTERN, "&lt;$1$2");
 }
 
 /**
  * Escape angle brackets that Vue's template compiler would interpret as components.
  * e.g., Array<String> → Array&lt;String>
+ * Code spans and fenced code blocks are left as-is: Markdown escapes them already,
+ * and an escape there would show literally (e.g., `#<Proc:...>`).
  */
 export function sanitizeForVitePress(text: string): string {
-  return text.replace(/<(\/?)([A-Z])/g, "&lt;$1$2");
+  const lines: string[] = [];
+  let prose: string[] = [];
+  const fences = new FenceTracker();
+
+  // Code spans may span lines, so the prose between fences is escaped as a whole
+  const flushProse = () => {
+    if (prose.length > 0) lines.push(escapeComponentTags(prose.join("\n")));
+    prose = [];
+  };
+
+  for (const line of text.split("\n")) {
+    if (fences.isCode(line)) {
+      flushProse();
+      lines.push(line);
+    } else {
+      prose.push(line);
+    }
+  }
+  flushProse();
+
+  return lines.join("\n");
+}
+
+/**
+ * Render a summary as Markdown. Structured summaries always get the same sections;
+ * plain Markdown summaries (from older pages) are returned as-is.
+ */
+export function formatSummary(summary: Summary): string {
+  if (typeof summary === "string") {
+    return summary;
+  }
+
+  const sections = [`### 概要\n\n${summary.overview}`, `### 変更内容の詳細\n\n${summary.details}`];
+
+  for (const sample of summary.codeSamples) {
+    const fence = fenceFor(sample.code);
+    const description = sample.description ? `${sample.description}\n\n` : "";
+    sections.push(`${description}${fence}${sample.language}\n${sample.code}\n${fence}`);
+  }
+
+  sections.push(`### 影響範囲・注意点\n\n${summary.impact}`);
+
+  if (summary.references.length > 0) {
+    sections.push(
+      `### 参考情報\n\n${summary.references.map((reference) => `- ${reference}`).join("\n")}`,
+    );
+  }
+
+  return sections.join("\n\n");
+}
+
+// VitePress badge colors by change type: removals and deprecations stand out
+const BADGE_TYPES: Record<ChangeType, "info" | "tip" | "warning" | "danger"> = {
+  feature: "tip",
+  bugfix: "info",
+  deprecation: "warning",
+  removal: "danger",
+  performance: "tip",
+  docs: "info",
+  internal: "info",
+};
+
+/**
+ * Format the change type (and breaking change) badges of an entry
+ * e.g., <Badge type="warning" text="非推奨化" />
+ */
+export function formatChangeBadges({ changeType, breaking }: ChangeClassification): string {
+  const badges = [
+    `<Badge type="${BADGE_TYPES[changeType]}" text="${getChangeTypeName(changeType)}" />`,
+  ];
+  if (breaking && changeType !== "removal") {
+    badges.push(`<Badge type="danger" text="破壊的変更" />`);
+  }
+  return badges.join(" ");
+}
+
+/**
+ * Format the original PR of a backport, e.g., [#123](https://github.com/rails/rails/pull/123) のバックポート
+ */
+function formatBackportOf(prNumber: number): string {
+  return `[#${prNumber}](https://github.com/rails/rails/pull/${prNumber}) のバックポート`;
 }
 
 /**
@@ -43,17 +243,373 @@ export function formatPREntry(
       login: string;
       html_url: string;
     } | null;
+    // Shown for PRs merged into other branches than main, e.g., 8-0-stable
+    base_ref?: string | null;
+    backport_of?: number | null;
   },
-  summary: string,
+  summary: Summary,
+  components: RailsComponent[] = [],
+  change?: ChangeClassification,
 ): string {
-  const date = new Date(pr.merged_at ?? "").toLocaleDateString("ja-JP");
+  const badges = change ? ` ${formatChangeBadges(change)}` : "";
+  const date = formatJapaneseDate(new Date(pr.merged_at ?? ""));
+  const componentField =
+    components.length > 0
+      ? ` | **コンポーネント**: ${components.map(getComponentName).join(", ")}`
+      : "";
+  const backport = pr.backport_of ? `（${formatBackportOf(pr.backport_of)}）` : "";
+  const branchField =
+    pr.base_ref && pr.base_ref !== MAIN_BRANCH ? ` | **ブランチ**: ${pr.base_ref}${backport}` : "";
   return `
-## [#${pr.number}](${pr.html_url}) ${pr.title} {#pr-${pr.number}}
+## [#${pr.number}](${pr.html_url}) ${pr.title}${badges} {#pr-${pr.number}}
 
-**マージ日**: ${date} | **作成者**: [@${pr.user?.login ?? "unknown"}](${pr.user?.html_url ?? "#"})
+**マージ日**: ${date} | **作成者**: [@${pr.user?.login ?? "unknown"}](${pr.user?.html_url ?? "#"})${componentField}${branchField}
 
-${sanitizeForVitePress(summary)}
+${sanitizeForVitePress(formatSummary(summary))}
 
 ---
 `;
 }
+
+/**
+ * Format a PR in the breaking changes section of a monthly page, linking to its entry
+ */
+export function formatBreakingChangeItem(
+  pr: { number: number; title: string },
+  summary: Summary,
+  change: ChangeClassification,
+): string {
+  const title = sanitizeForVitePress(pr.title).replace(/([[\]])/g, "\\$1");
+  const item = `- ${formatChangeBadges(change)} [#${pr.number} ${title}](#pr-${pr.number})`;
+
+  return typeof summary === "string"
+    ? item
+    : `${item}\n  ${sanitizeForVitePress(summary.overview).replace(/\n+/g, " ")}`;
+}
+
+/**
+ * Format a trivial PR as a one-line item of the "その他の変更" section
+ */
+export function formatTrivialPRItem(
+  pr: { number: number; title: string; url: string; author: string | null },
+  reason: TrivialReason,
+): string {
+  return `- [#${pr.number}](${pr.url}) ${sanitizeForVitePress(pr.title)} (@${pr.author ?? "unknown"}, ${TRIVIAL_REASONS[reason]})`;
+}
+
+/**
+ * Format the highlights section of a monthly page: counts by change type,
+ * top changes per component (linking to their entries) and the most active contributors
+ */
+export function formatMonthlyHighlights({
+  changeTypes,
+  components,
+  contributors,
+  total,
+}: MonthlyHighlights): string {
+  if (total === 0) {
+    return "";
+  }
+
+  const counts = changeTypes
+    .map(({ changeType, count }) => `${getChangeTypeName(changeType)} ${count}件`)
+    .join(" · ");
+  const sections = [`**変更の種類**（全${total}件）: ${counts}`];
+
+  if (components.length > 0) {
+    const groups = components.map(({ component, count, topChanges }) => {
+      const items = topChanges.map((pr) => {
+        const title = sanitizeForVitePress(pr.title).replace(/([[\]])/g, "\\$1");
+        return `- ${formatChangeBadges(pr)} [#${pr.number} ${title}](#pr-${pr.number})`;
+      });
+      return `**${getComponentName(component)}**（${count}件）\n\n${items.join("\n")}`;
+    });
+    sections.push(`### コンポーネント別の主な変更\n\n${groups.join("\n\n")}`);
+  }
+
+  if (contributors.length > 0) {
+    const names = contributors
+      .map(({ login, url, count }) => `[@${login}](${url}) ${count}件`)
+      .join(" · ");
+    sections.push(`### 活発なコントリビューター\n\n${names}`);
+  }
+
+  return `## 📊 今月のハイライト\n\n${sections.join("\n\n")}\n`;
+}
+
+export interface MonthlyPageSections {
+  // Highlights of the month (formatMonthlyHighlights), at the top of the page
+  highlights?: string;
+  // Breaking changes and deprecations, listed above the entries
+  breakingChanges?: string[];
+  // Trivial PRs, listed below the entries
+  otherChanges?: string[];
+}
+
+/**
+ * Format a whole monthly page (frontmatter, header and entries)
+ */
+export function formatMonthlyPage(
+  { year, month }: YearMonth,
+  entries: string[],
+  lastUpdated = new Date(),
+  { highlights = "", breakingChanges = [], otherChanges = [] }: MonthlyPageSections = {},
+): string {
+  const highlightsSection = highlights ? `${highlights}\n---\n\n` : "";
+  const breakingSection =
+    breakingChanges.length > 0
+      ? `## ⚠️ 破壊的変更・非推奨化\n\n${breakingChanges.join("\n")}\n\n---\n`
+      : "";
+  const otherSection =
+    otherChanges.length > 0 ? `\n## その他の変更\n\n${otherChanges.join("\n")}` : "";
+
+  return `---
+title: ${year}年 ${month}月
+description: Ruby on Rails PR Digest - ${year}年 ${month}月にマージされたPRの要約
+lastUpdated: ${lastUpdated.toISOString().split("T")[0]}
+---
+
+# Ruby on Rails PR Digest - ${year}年 ${month}月
+
+> このページは [rails/rails](https://github.com/rails/rails) リポジトリにマージされたPull Requestを自動的に収集し、AIで要約したものです。
+
+${highlightsSection}${breakingSection}${entries.join("\n")}${otherSection}
+`;
+}
+
+/**
+ * Format a PR as a list item on a component page, linking to its entry on the monthly page
+ */
+export function formatComponentListItem(
+  pr: {
+    number: number;
+    title: string;
+    mergedAt: string;
+    author: string | null;
+  },
+  summary: Summary,
+): string {
+  const monthKey = getMonthKey(new Date(pr.mergedAt));
+  const title = sanitizeForVitePress(pr.title).replace(/([[\]])/g, "\\$1");
+  const item = `- [#${pr.number} ${title}](/monthly/${monthKey}#pr-${pr.number}) (@${pr.author ?? "unknown"})`;
+
+  // Structured summaries have a one-line overview to show under the link
+  return typeof summary === "string"
+    ? item
+    : `${item}\n  ${sanitizeForVitePress(summary.overview).replace(/\n+/g, " ")}`;
+}
+
+/**
+ * Format a component page: its PRs across all months, grouped by merge month (newest first)
+ */
+export function formatComponentPage(
+  component: RailsComponent,
+  months: { monthKey: string; items: string[] }[],
+  lastUpdated = new Date(),
+): string {
+  const name = getComponentName(component);
+  const count = months.reduce((sum, { items }) => sum + items.length, 0);
+  const sections = months.map(({ monthKey, items }) => {
+    const { year, month } = parseMonthKey(monthKey);
+    return `## ${year}年 ${month}月\n\n${items.join("\n")}\n`;
+  });
+
+  return `---
+title: ${name}
+description: Ruby on Rails PR Digest - ${name} (${component}) に関するPRの一覧
+lastUpdated: ${lastUpdated.toISOString().split("T")[0]}
+---
+
+# ${name}
+
+> [rails/rails](https://github.com/rails/rails) の \`${component}/\` に変更を加えたPull Requestの一覧です（${count}件）。[RSSフィード](/feeds/${component}.xml)
+
+${sections.join("\n")}`;
+}
+
+/**
+ * Format the index of component pages
+ */
+export function formatComponentIndexPage(
+  components: { component: RailsComponent; count: number }[],
+): string {
+  const items = components.map(
+    ({ component, count }) =>
+      `- [${getComponentName(component)}](/components/${component}) (${count}件) - [RSS](/feeds/${component}.xml)`,
+  );
+
+  return `---
+title: コンポーネント別
+description: Ruby on Rails PR Digest - Railsのコンポーネント別のPR一覧
+---
+
+# コンポーネント別
+
+> 変更されたファイルのディレクトリとGitHubのラベルから、各PRが関係するRailsのコンポーネントを判定しています。
+
+${items.join("\n")}
+`;
+}
+
+/**
+ * Format a whole weekly page: the overview of the week's notable changes, then the entries
+ */
+export function formatWeeklyPage(
+  weekKey: string,
+  entries: string[],
+  overview: string | null,
+  lastUpdated = new Date(),
+): string {
+  const title = getWeekTitle(weekKey);
+  const range = formatWeekRange(weekKey);
+  const overviewSection = overview
+    ? `## 今週の注目ポイント\n\n${sanitizeForVitePress(overview)}\n\n---\n`
+    : "";
+
+  return `---
+title: ${title}
+description: Ruby on Rails PR Digest - ${title}（${range}）にマージされたPRの要約
+lastUpdated: ${lastUpdated.toISOString().split("T")[0]}
+---
+
+# Ruby on Rails PR Digest - ${title}
+
+> ${range} に [rails/rails](https://github.com/rails/rails) リポジトリにマージされたPull Requestを自動的に収集し、AIで要約したものです（${entries.length}件）。
+
+${overviewSection}${entries.join("\n")}`;
+}
+
+/**
+ * Format the index of weekly pages (newest first)
+ */
+export function formatWeeklyIndexPage(weeks: { weekKey: string; count: number }[]): string {
+  const items = weeks.map(
+    ({ weekKey, count }) =>
+      `- [${getWeekTitle(weekKey)}](/weekly/${weekKey}) (${formatWeekRange(weekKey)}、${count}件)`,
+  );
+
+  return `---
+title: 週別ダイジェスト
+description: Ruby on Rails PR Digest - 週ごとにマージされたPRの要約
+---
+
+# 週別ダイジェスト
+
+> 月曜日から日曜日までの1週間ごとに、マージされたPRとAIによるその週の注目ポイントをまとめています。
+
+${items.join("\n")}
+`;
+}
+
+/**
+ * Get the title of a release page, e.g., Rails 8.1.1, or main（8.1.0 以降の変更） for unreleased changes
+ */
+export function getReleaseTitle({
+  branch,
+  version,
+  since,
+}: Pick<ReleaseGroup, "branch" | "version" | "since">): string {
+  if (version) return `Rails ${version.version}`;
+  return since ? `${branch}（${since} 以降の変更）` : `${branch}（未リリース）`;
+}
+
+/**
+ * Describe which PRs a release page lists
+ */
+function describeRelease({
+  branch,
+  version,
+  since,
+}: Omit<ReleaseGroup, "slug" | "records">): string {
+  if (!version) {
+    const origin = since
+      ? branch === MAIN_BRANCH
+        ? `${since} のブランチ作成以降に `
+        : `${since} のリリース以降に `
+      : "";
+    return `${origin}\`${branch}\` にマージされ、まだリリースされていないPR`;
+  }
+
+  const release = `[${version.tagName}](https://github.com/rails/rails/releases/tag/${version.tagName})`;
+  if (!version.releasedAt) {
+    return `Rails ${version.version} に含まれる予定のPR（${release} までリリース済み）`;
+  }
+  const date = formatJapaneseDate(new Date(version.releasedAt));
+  return `${date} に ${release} としてリリースされた Rails ${version.version} に含まれるPR`;
+}
+
+/**
+ * Format a PR as a list item on a release page: like on the component pages,
+ * plus the breaking change badge and the original PR of a backport
+ */
+export function formatReleaseListItem(
+  pr: {
+    number: number;
+    title: string;
+    mergedAt: string;
+    author: string | null;
+    breaking: boolean;
+    backportOf: number | null;
+  },
+  summary: Summary,
+): string {
+  const [item, ...overview] = formatComponentListItem(pr, summary).split("\n");
+  const breaking = pr.breaking ? ' <Badge type="danger" text="破壊的変更" />' : "";
+  const backport = pr.backportOf ? `（${formatBackportOf(pr.backportOf)}）` : "";
+  return [`${item}${backport}${breaking}`, ...overview].join("\n");
+}
+
+/**
+ * Format a release page: the PRs of a version (or the unreleased changes of a branch),
+ * grouped by change type
+ */
+export function formatReleasePage(
+  group: Omit<ReleaseGroup, "slug" | "records">,
+  sections: { changeType: ChangeType; items: string[] }[],
+  lastUpdated = new Date(),
+): string {
+  const title = getReleaseTitle(group);
+  const count = sections.reduce((sum, { items }) => sum + items.length, 0);
+  const content = sections.map(
+    ({ changeType, items }) => `## ${getChangeTypeName(changeType)}\n\n${items.join("\n")}\n`,
+  );
+
+  return `---
+title: ${title}
+description: Ruby on Rails PR Digest - ${title} の変更点
+lastUpdated: ${lastUpdated.toISOString().split("T")[0]}
+---
+
+# ${title}
+
+> ${describeRelease(group)}の一覧です（${count}件）。リリースとの対応はPRのマージ先ブランチとマージ日時、GitHubのリリースの公開日時から判定しています。
+
+${content.join("\n")}`;
+}
+
+/**
+ * Format the index of release pages: unreleased changes first, then versions newest first
+ */
+export function formatReleaseIndexPage(
+  groups: (Pick<ReleaseGroup, "slug" | "branch" | "version" | "since"> & { count: number })[],
+): string {
+  const item = ({ slug, count, ...group }: (typeof groups)[number]) =>
+    `- [${getReleaseTitle(group)}](/releases/${slug}) (${count}件)`;
+  const unreleased = groups.filter((group) => !group.version).map(item);
+  const released = groups.filter((group) => group.version).map(item);
+  const sections = [
+    unreleased.length > 0 ? `## 未リリース\n\n${unreleased.join("\n")}\n` : "",
+    released.length > 0 ? `## リリース済み\n\n${released.join("\n")}\n` : "",
+  ].filter((section) => section !== "");
+
+  return `---
+title: リリース別
+description: Ruby on Rails PR Digest - Railsのバージョンごとの変更点
+---
+
+# リリース別
+
+> 各PRを、マージ先のブランチ（\`main\`、\`8-0-stable\` など）とGitHubのリリースから、最初に含まれたRailsのバージョンに振り分けています。安定版ブランチへのバックポートは、そのブランチのバージョンに表示されます。
+
+${sections.join("\n")}`;
+}
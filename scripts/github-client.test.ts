@@ -1,16 +1,25 @@
 import { Octokit } from "@octokit/rest";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
-import { GitHubClient } from "./github-client";
+import { extractChangelogEntries, extractLinkedIssueNumbers, GitHubClient } from "./github-client";
 
 // Mock the Octokit module
 vi.mock("@octokit/rest", () => {
   const MockOctokit = vi.fn();
+  MockOctokit.prototype.paginate = vi.fn();
   MockOctokit.prototype.search = {
     issuesAndPullRequests: vi.fn(),
   };
   MockOctokit.prototype.pulls = {
     get: vi.fn(),
     listFiles: vi.fn(),
+    listReviews: vi.fn(),
+  };
+  MockOctokit.prototype.issues = {
+    get: vi.fn(),
+    listComments: vi.fn(),
+  };
+  MockOctokit.prototype.repos = {
+    listReleases: vi.fn(),
   };
   return {
     Octokit: MockOctokit,
@@ -68,10 +77,82 @@ describe("GitHubClient", () => {
     });
   });
 
+  describe("fetchMergedPRs", () => {
+    it("should follow search result pages until the last page", async () => {
+      const mockIssuesAndPullRequests = vi.spyOn(
+        (Octokit.prototype as any).search,
+        "issuesAndPullRequests",
+      );
+
+      const firstPage = Array.from({ length: 100 }, (_, i) => ({
+        number: i + 1,
+        title: `PR ${i}`,
+      }));
+      mockIssuesAndPullRequests
+        .mockResolvedValueOnce({ data: { total_count: 101, items: firstPage } })
+        .mockResolvedValueOnce({ data: { total_count: 101, items: [{ number: 101 }] } });
+
+      const result = await client.fetchMergedPRs(
+        new Date("2026-08-01T00:00:00Z"),
+        new Date("2026-08-15T23:59:59Z"),
+      );
+
+      expect(result).toHaveLength(101);
+      expect(mockIssuesAndPullRequests).toHaveBeenCalledTimes(2);
+      expect(mockIssuesAndPullRequests).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          q: "repo:rails/rails is:pr is:merged merged:2026-08-01T00:00:00Z..2026-08-15T23:59:59Z",
+          sort: "created",
+          page: 2,
+        }),
+      );
+    });
+
+    it("should split the window when results exceed the 1,000 search limit", async () => {
+      const mockIssuesAndPullRequests = vi.spyOn(
+        (Octokit.prototype as any).search,
+        "issuesAndPullRequests",
+      );
+
+      mockIssuesAndPullRequests
+        .mockResolvedValueOnce({ data: { total_count: 1500, items: [] } })
+        .mockResolvedValueOnce({ data: { total_count: 1, items: [{ number: 1 }] } })
+        .mockResolvedValueOnce({ data: { total_count: 1, items: [{ number: 2 }] } });
+
+      const result = await client.fetchMergedPRs(
+        new Date("2026-08-01T00:00:00Z"),
+        new Date("2026-08-03T00:00:00Z"),
+      );
+
+      expect(result.map((pr) => pr.number).sort()).toEqual([1, 2]);
+      const queries = mockIssuesAndPullRequests.mock.calls.map((call: any[]) => call[0].q);
+      expect(queries[1]).toContain("merged:2026-08-01T00:00:00Z..2026-08-02T00:00:00Z");
+      expect(queries[2]).toContain("merged:2026-08-02T00:00:01Z..2026-08-03T00:00:00Z");
+    });
+
+    it("should read merged_at from the pull_request field of search results", async () => {
+      const mockIssuesAndPullRequests = vi.spyOn(
+        (Octokit.prototype as any).search,
+        "issuesAndPullRequests",
+      );
+
+      mockIssuesAndPullRequests.mockResolvedValue({
+        data: {
+          total_count: 1,
+          items: [{ number: 1, pull_request: { merged_at: "2026-08-02T10:00:00Z" } }],
+        },
+      });
+
+      const result = await client.fetchMergedPRs(new Date("2026-08-01T00:00:00Z"));
+
+      expect(result[0].merged_at).toBe("2026-08-02T10:00:00Z");
+    });
+  });
+
   describe("getPRDetails", () => {
     it("should return PR details with files", async () => {
       const mockPullsGet = vi.spyOn((Octokit.prototype as any).pulls, "get");
-      const mockPullsListFiles = vi.spyOn((Octokit.prototype as any).pulls, "listFiles");
+      const mockPaginate = vi.spyOn(Octokit.prototype as any, "paginate");
 
       mockPullsGet.mockResolvedValue({
         data: {
@@ -82,6 +163,9 @@ describe("GitHubClient", () => {
           merged_at: "2025-11-24T10:00:00Z",
           additions: 10,
           deletions: 5,
+          labels: [],
+          head: { sha: "abc123" },
+          base: { ref: "8-0-stable" },
           user: {
             login: "testuser",
             html_url: "https://github.com/testuser",
@@ -89,20 +173,107 @@ describe("GitHubClient", () => {
         },
       });
 
-      mockPullsListFiles.mockResolvedValue({
-        data: [
-          { filename: "file1.ts", additions: 10, deletions: 5 },
-          { filename: "file2.ts", additions: 20, deletions: 10 },
-        ],
-      });
+      mockPaginate.mockImplementation(async (method: unknown) =>
+        method === (Octokit.prototype as any).pulls.listFiles
+          ? [
+              { filename: "file1.ts", additions: 10, deletions: 5 },
+              { filename: "file2.ts", additions: 20, deletions: 10 },
+            ]
+          : [],
+      );
 
       const result = await client.getPRDetails(12345);
 
       expect(result).not.toBeNull();
       if (result) {
         expect(result.pr.number).toBe(12345);
+        expect(result.pr.head_sha).toBe("abc123");
+        expect(result.pr.base_ref).toBe("8-0-stable");
         expect(result.files).toHaveLength(2);
       }
+      expect(mockPaginate).toHaveBeenCalledWith(
+        (Octokit.prototype as any).pulls.listFiles,
+        expect.objectContaining({ pull_number: 12345, per_page: 100 }),
+      );
+    });
+
+    it("should include linked issues, comments and CHANGELOG additions", async () => {
+      const mockPullsGet = vi.spyOn((Octokit.prototype as any).pulls, "get");
+      const mockIssuesGet = vi.spyOn((Octokit.prototype as any).issues, "get");
+      const mockPaginate = vi.spyOn(Octokit.prototype as any, "paginate");
+
+      mockPullsGet.mockResolvedValue({
+        data: {
+          number: 12345,
+          body: "Fixes #100. Fixes #101.",
+          labels: [{ name: "activerecord" }],
+          head: { sha: "abc123" },
+          base: { ref: "main" },
+          user: null,
+        },
+      });
+      mockIssuesGet.mockImplementation(async ({ issue_number }: any) => {
+        if (issue_number === 101) throw new Error("Not Found");
+        return {
+          data: {
+            number: 100,
+            title: "Bug",
+            html_url: "https://github.com/rails/rails/issues/100",
+          },
+        };
+      });
+      mockPaginate.mockImplementation(async (method: unknown) => {
+        const { pulls, issues } = Octokit.prototype as any;
+        if (method === pulls.listFiles) {
+          return [
+            {
+              filename: "activerecord/CHANGELOG.md",
+              additions: 2,
+              deletions: 0,
+              patch: "@@ -1,0 +1,2 @@\n+*   Fix the bug.\n+\n context",
+            },
+          ];
+        }
+        if (method === issues.listComments) {
+          return [
+            {
+              user: { login: "reviewer", type: "User" },
+              body: "Looks good",
+              created_at: "2025-11-24T09:00:00Z",
+            },
+            {
+              user: { login: "rails-bot[bot]", type: "Bot" },
+              body: "Bot comment",
+              created_at: "2025-11-24T08:00:00Z",
+            },
+          ];
+        }
+        if (method === pulls.listReviews) {
+          return [
+            { user: { login: "maintainer", type: "User" }, body: "", submitted_at: null },
+            {
+              user: { login: "maintainer", type: "User" },
+              body: "Please add a test",
+              submitted_at: "2025-11-24T08:30:00Z",
+            },
+          ];
+        }
+        return [];
+      });
+
+      const result = await client.getPRDetails(12345);
+
+      expect(result?.pr.labels).toEqual(["activerecord"]);
+      expect(result?.linkedIssues).toEqual([
+        expect.objectContaining({ number: 100, title: "Bug", body: null }),
+      ]);
+      expect(result?.comments).toEqual([
+        { author: "maintainer", body: "Please add a test" },
+        { author: "reviewer", body: "Looks good" },
+      ]);
+      expect(result?.changelogEntries).toEqual([
+        { filename: "activerecord/CHANGELOG.md", text: "*   Fix the bug." },
+      ]);
     });
 
     it("should return null when API call fails", async () => {
@@ -115,4 +286,80 @@ describe("GitHubClient", () => {
       expect(result).toBeNull();
     });
   });
+
+  describe("getBaseBranch", () => {
+    it("should return the branch the PR was merged into", async () => {
+      vi.spyOn((Octokit.prototype as any).pulls, "get").mockResolvedValue({
+        data: { number: 12345, base: { ref: "7-2-stable" } },
+      });
+
+      expect(await client.getBaseBranch(12345)).toBe("7-2-stable");
+    });
+
+    it("should return null when API call fails", async () => {
+      vi.spyOn((Octokit.prototype as any).pulls, "get").mockRejectedValue(new Error("API Error"));
+
+      expect(await client.getBaseBranch(12345)).toBeNull();
+    });
+  });
+
+  describe("fetchReleases", () => {
+    it("should return the published releases without drafts", async () => {
+      const mockPaginate = vi.spyOn(Octokit.prototype as any, "paginate");
+      mockPaginate.mockResolvedValue([
+        { tag_name: "v8.1.1", published_at: "2025-10-28T20:00:00Z", draft: false },
+        { tag_name: "v8.2.0.beta1", published_at: null, draft: true },
+        { tag_name: "v8.1.0", published_at: "2025-10-22T20:00:00Z", draft: false },
+      ]);
+
+      expect(await client.fetchReleases()).toEqual([
+        { tagName: "v8.1.1", publishedAt: "2025-10-28T20:00:00Z" },
+        { tagName: "v8.1.0", publishedAt: "2025-10-22T20:00:00Z" },
+      ]);
+      expect(mockPaginate).toHaveBeenCalledWith(
+        (Octokit.prototype as any).repos.listReleases,
+        expect.objectContaining({ owner: "rails", repo: "rails", per_page: 100 }),
+      );
+    });
+
+    it("should return null when API call fails", async () => {
+      vi.spyOn(Octokit.prototype as any, "paginate").mockRejectedValue(new Error("API Error"));
+
+      expect(await client.fetchReleases()).toBeNull();
+    });
+  });
+});
+
+describe("extractLinkedIssueNumbers", () => {
+  it("should find issues closed with keywords, references and URLs", () => {
+    const body = [
+      "Fixes #123",
+      "closes rails/rails#456 and resolves: https://github.com/rails/rails/issues/789",
+      "Fixes #123 again",
+    ].join("\n");
+
+    expect(extractLinkedIssueNumbers(body, "rails", "rails")).toEqual([123, 456, 789]);
+  });
+
+  it("should ignore plain references and other repositories", () => {
+    const body = "Related to #1. Fixes other/repo#2. Fixes #3abc";
+
+    expect(extractLinkedIssueNumbers(body, "rails", "rails")).toEqual([]);
+  });
+
+  it("should return empty array without a body", () => {
+    expect(extractLinkedIssueNumbers(null, "rails", "rails")).toEqual([]);
+  });
+});
+
+describe("extractChangelogEntries", () => {
+  it("should collect added lines of CHANGELOG files only", () => {
+    const entries = extractChangelogEntries([
+      { filename: "actionpack/CHANGELOG.md", additions: 1, deletions: 1, patch: "-old\n+new" },
+      { filename: "actionpack/lib/foo.rb", additions: 1, deletions: 0, patch: "+code" },
+      { filename: "activerecord/CHANGELOG.md", additions: 0, deletions: 1, patch: "-removed" },
+    ]);
+
+    expect(entries).toEqual([{ filename: "actionpack/CHANGELOG.md", text: "new" }]);
+  });
 });
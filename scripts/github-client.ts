@@ -1,4 +1,5 @@
 import { Octokit } from "@octokit/rest";
+import { withRetry } from "./retry";
 
 export interface PRSearchResult {
   number: number;
@@ -16,6 +17,26 @@ export interface PRFile {
   filename?: string;
   additions: number;
   deletions: number;
+  // Unified diff of the file; missing for binary and very large files
+  patch?: string;
+}
+
+export interface LinkedIssue {
+  number: number;
+  title: string;
+  html_url: string;
+  body: string | null;
+}
+
+export interface PRComment {
+  author: string | null;
+  body: string;
+}
+
+export interface ChangelogEntry {
+  filename: string;
+  // Lines added to the CHANGELOG, without the diff markers
+  text: string;
 }
 
 export interface PRDetails {
@@ -27,12 +48,83 @@ export interface PRDetails {
     body: string | null;
     additions: number;
     deletions: number;
+    changed_files: number;
+    labels: string[];
+    // Latest commit of the PR branch
+    head_sha: string;
+    // Branch the PR was merged into, e.g., main or 8-0-stable
+    base_ref: string;
     user: {
       login: string;
       html_url: string;
     } | null;
   };
   files: PRFile[];
+  // Issues the PR closes (e.g., "Fixes #123")
+  linkedIssues: LinkedIssue[];
+  // Conversation comments and review summaries (not inline code comments), oldest first
+  comments: PRComment[];
+  changelogEntries: ChangelogEntry[];
+}
+
+export interface Release {
+  tagName: string;
+  publishedAt: string;
+}
+
+const SEARCH_PER_PAGE = 100;
+const MAX_LINKED_ISSUES = 5;
+// The search API only returns the first 1,000 results of any query
+const SEARCH_RESULT_LIMIT = 1000;
+
+/**
+ * Format a date for search qualifiers (GitHub does not accept milliseconds)
+ * e.g., 2026-08-01T00:00:00Z
+ */
+function toSearchTimestamp(date: Date): string {
+  return date.toISOString().replace(/\.\d{3}Z$/, "Z");
+}
+
+/**
+ * Extract the numbers of issues a PR closes from its body, in order of appearance:
+ * "Fixes #123", "Closes rails/rails#123", "Resolves https://github.com/rails/rails/issues/123"
+ */
+export function extractLinkedIssueNumbers(
+  body: string | null,
+  owner: string,
+  repo: string,
+): number[] {
+  if (!body) return [];
+
+  const repoPattern = `${owner}/${repo}`.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const pattern = new RegExp(
+    `\\b(?:close[sd]?|fix(?:e[sd])?|resolve[sd]?):?\\s+(?:(?:${repoPattern})?#|https://github\\.com/${repoPattern}/(?:issues|pull)/)(\\d+)\\b`,
+    "gi",
+  );
+
+  const numbers = new Set<number>();
+  for (const match of body.matchAll(pattern)) {
+    numbers.add(Number.parseInt(match[1], 10));
+  }
+  return Array.from(numbers);
+}
+
+/**
+ * Collect the lines added to CHANGELOG.md files
+ */
+export function extractChangelogEntries(files: PRFile[]): ChangelogEntry[] {
+  return files
+    .filter((f) => f.filename && /(^|\/)CHANGELOG\.md$/.test(f.filename) && f.patch)
+    .map((f) => ({
+      filename: f.filename ?? "unknown",
+      text: (f.patch ?? "")
+        .split("\n")
+        .filter((line) => line.startsWith("+") && !line.startsWith("+++"))
+        .map((line) => line.slice(1))
+        .join("\n")
+        .trim(),
+    }))
+    .filter((entry) => entry.text !== "");
 }
 
 export class GitHubClient {
@@ -50,53 +142,118 @@ export class GitHubClient {
    * Fetch merged PRs from the last 24 hours
    */
   async fetchRecentPRs(): Promise<PRSearchResult[]> {
-    console.log(`Fetching recently merged PRs from ${this.owner}/${this.repo}...`);
-
     const yesterday = new Date();
     yesterday.setDate(yesterday.getDate() - 1);
 
+    return this.fetchMergedPRs(yesterday);
+  }
+
+  /**
+   * Fetch PRs merged between `since` and `until` (both inclusive, `until` defaults to now),
+   * following all result pages
+   */
+  async fetchMergedPRs(since: Date, until = new Date()): Promise<PRSearchResult[]> {
+    console.log(
+      `Fetching PRs merged ${toSearchTimestamp(since)}..${toSearchTimestamp(until)} from ${this.owner}/${this.repo}...`,
+    );
+
     try {
-      const { data: pullRequests } = await this.octokit.search.issuesAndPullRequests({
-        q: `repo:${this.owner}/${this.repo} is:pr is:merged merged:>=${yesterday.toISOString().split("T")[0]}`,
-        sort: "updated",
-        order: "desc",
-        per_page: 100,
-      });
-
-      console.log(`Found ${pullRequests.items.length} merged PRs`);
-      return pullRequests.items.map(
-        (item): PRSearchResult => ({
-          number: item.number,
-          title: item.title,
-          html_url: item.html_url,
-          merged_at: "merged_at" in item ? (item.merged_at as string | null) : null,
-          body: item.body || null,
-          user: item.user,
-        }),
-      );
+      const results = await this.searchMergedPRs(since, until);
+
+      console.log(`Found ${results.length} merged PRs`);
+      return results;
     } catch (error) {
       console.error("Error fetching PRs:", error instanceof Error ? error.message : String(error));
       return [];
     }
   }
 
+  /**
+   * Search merged PRs in a window. The search API returns at most 1,000 results per query,
+   * so windows with more matches are split in half and searched separately.
+   */
+  private async searchMergedPRs(since: Date, until: Date): Promise<PRSearchResult[]> {
+    const results: PRSearchResult[] = [];
+
+    for (let page = 1; ; page++) {
+      const { data: pullRequests } = await withRetry(
+        () =>
+          this.octokit.search.issuesAndPullRequests({
+            q: `repo:${this.owner}/${this.repo} is:pr is:merged merged:${toSearchTimestamp(since)}..${toSearchTimestamp(until)}`,
+            // Creation time never changes, so PRs updated while paging keep their position
+            sort: "created",
+            order: "desc",
+            per_page: SEARCH_PER_PAGE,
+            page,
+          }),
+        { label: `Search merged PRs (page ${page})` },
+      );
+
+      // Split the window (search timestamps have one-second resolution)
+      const windowSeconds = Math.floor((until.getTime() - since.getTime()) / 1000);
+      if (page === 1 && pullRequests.total_count > SEARCH_RESULT_LIMIT && windowSeconds > 0) {
+        const middle = new Date(since.getTime() + Math.floor(windowSeconds / 2) * 1000);
+        console.log(
+          `${pullRequests.total_count} results exceed the search limit, splitting at ${toSearchTimestamp(middle)}`,
+        );
+        const older = await this.searchMergedPRs(since, middle);
+        const newer = await this.searchMergedPRs(new Date(middle.getTime() + 1000), until);
+        return [...newer, ...older];
+      }
+
+      results.push(
+        ...pullRequests.items.map(
+          (item): PRSearchResult => ({
+            number: item.number,
+            title: item.title,
+            html_url: item.html_url,
+            merged_at: item.pull_request?.merged_at ?? null,
+            body: item.body || null,
+            user: item.user,
+          }),
+        ),
+      );
+
+      if (
+        pullRequests.items.length < SEARCH_PER_PAGE ||
+        results.length >= Math.min(pullRequests.total_count, SEARCH_RESULT_LIMIT)
+      ) {
+        return results;
+      }
+    }
+  }
+
   /**
    * Get PR details including diff
    */
   async getPRDetails(prNumber: number): Promise<PRDetails | null> {
     try {
-      const { data: pr } = await this.octokit.pulls.get({
-        owner: this.owner,
-        repo: this.repo,
-        pull_number: prNumber,
-      });
-
-      const { data: files } = await this.octokit.pulls.listFiles({
-        owner: this.owner,
-        repo: this.repo,
-        pull_number: prNumber,
-        per_page: 100,
-      });
+      const { data: pr } = await withRetry(
+        () =>
+          this.octokit.pulls.get({
+            owner: this.owner,
+            repo: this.repo,
+            pull_number: prNumber,
+          }),
+        { label: `Fetch PR #${prNumber}` },
+      );
+
+      // Follow all pages (the API itself lists at most 3,000 files per PR)
+      const files = await withRetry(
+        () =>
+          this.octokit.paginate(this.octokit.pulls.listFiles, {
+            owner: this.owner,
+            repo: this.repo,
+            pull_number: prNumber,
+            per_page: 100,
+          }),
+        { label: `Fetch files of PR #${prNumber}` },
+      );
+
+      const linkedIssues = await this.getLinkedIssues(
+        extractLinkedIssueNumbers(pr.body, this.owner, this.repo).filter((n) => n !== prNumber),
+      );
+      const comments = await this.getComments(prNumber);
 
       return {
         pr: {
@@ -107,9 +264,16 @@ export class GitHubClient {
           body: pr.body,
           additions: pr.additions,
           deletions: pr.deletions,
+          changed_files: pr.changed_files,
+          labels: pr.labels.map((label) => label.name),
+          head_sha: pr.head.sha,
+          base_ref: pr.base.ref,
           user: pr.user,
         },
         files: files as PRFile[],
+        linkedIssues,
+        comments,
+        changelogEntries: extractChangelogEntries(files as PRFile[]),
       };
     } catch (error) {
       console.error(
@@ -119,4 +283,139 @@ export class GitHubClient {
       return null;
     }
   }
+
+  /**
+   * Get the branch a PR was merged into, without its files and comments
+   * (for records collected before the branch was recorded)
+   */
+  async getBaseBranch(prNumber: number): Promise<string | null> {
+    try {
+      const { data: pr } = await withRetry(
+        () =>
+          this.octokit.pulls.get({
+            owner: this.owner,
+            repo: this.repo,
+            pull_number: prNumber,
+          }),
+        { label: `Fetch PR #${prNumber}` },
+      );
+      return pr.base.ref;
+    } catch (error) {
+      console.error(
+        `Error fetching the base branch of PR #${prNumber}:`,
+        error instanceof Error ? error.message : String(error),
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Fetch the published releases (drafts are left out), newest first.
+   * Returns null on failure so callers can keep the releases they already have.
+   */
+  async fetchReleases(): Promise<Release[] | null> {
+    try {
+      const releases = await withRetry(
+        () =>
+          this.octokit.paginate(this.octokit.repos.listReleases, {
+            owner: this.owner,
+            repo: this.repo,
+            per_page: 100,
+          }),
+        { label: "Fetch releases" },
+      );
+
+      return releases
+        .filter((release) => !release.draft && release.published_at)
+        .map((release) => ({
+          tagName: release.tag_name,
+          publishedAt: release.published_at ?? "",
+        }));
+    } catch (error) {
+      console.error(
+        "Error fetching releases:",
+        error instanceof Error ? error.message : String(error),
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Fetch linked issues. They only add context, so issues that cannot be fetched are skipped.
+   */
+  private async getLinkedIssues(issueNumbers: number[]): Promise<LinkedIssue[]> {
+    const issues: LinkedIssue[] = [];
+
+    for (const issueNumber of issueNumbers.slice(0, MAX_LINKED_ISSUES)) {
+      try {
+        const { data: issue } = await withRetry(
+          () =>
+            this.octokit.issues.get({
+              owner: this.owner,
+              repo: this.repo,
+              issue_number: issueNumber,
+            }),
+          { label: `Fetch issue #${issueNumber}` },
+        );
+        issues.push({
+          number: issue.number,
+          title: issue.title,
+          html_url: issue.html_url,
+          body: issue.body ?? null,
+        });
+      } catch (error) {
+        console.warn(
+          `Skipping linked issue #${issueNumber}:`,
+          error instanceof Error ? error.message : String(error),
+        );
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Fetch conversation comments and review summaries of a PR, leaving out bots and empty reviews.
+   * Like linked issues, they are optional context: failures give an empty list.
+   */
+  private async getComments(prNumber: number): Promise<PRComment[]> {
+    try {
+      const [issueComments, reviews] = await Promise.all([
+        withRetry(
+          () =>
+            this.octokit.paginate(this.octokit.issues.listComments, {
+              owner: this.owner,
+              repo: this.repo,
+              issue_number: prNumber,
+              per_page: 100,
+            }),
+          { label: `Fetch comments of PR #${prNumber}` },
+        ),
+        withRetry(
+          () =>
+            this.octokit.paginate(this.octokit.pulls.listReviews, {
+              owner: this.owner,
+              repo: this.repo,
+              pull_number: prNumber,
+              per_page: 100,
+            }),
+          { label: `Fetch reviews of PR #${prNumber}` },
+        ),
+      ]);
+
+      return [
+        ...issueComments.map((c) => ({ user: c.user, body: c.body, date: c.created_at })),
+        ...reviews.map((r) => ({ user: r.user, body: r.body, date: r.submitted_at ?? "" })),
+      ]
+        .filter((c) => c.body?.trim() && c.user?.type !== "Bot")
+        .sort((a, b) => Date.parse(a.date) - Date.parse(b.date))
+        .map((c) => ({ author: c.user?.login ?? null, body: (c.body ?? "").trim() }));
+    } catch (error) {
+      console.warn(
+        `Skipping comments of PR #${prNumber}:`,
+        error instanceof Error ? error.message : String(error),
+      );
+      return [];
+    }
+  }
 }
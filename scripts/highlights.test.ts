@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { computeMonthlyHighlights } from "./highlights";
+import type { StoredPR } from "./pr-store";
+import { createRecord } from "./test-fixtures";
+
+// PRs of the month are bug fixes to Active Record unless a test says otherwise
+function createMonthRecord(overrides: Partial<StoredPR> = {}): StoredPR {
+  return createRecord({ components: ["activerecord"], changeType: "bugfix", ...overrides });
+}
+
+describe("highlights", () => {
+  describe("computeMonthlyHighlights", () => {
+    it("should count the PRs by change type in the order of the change types", () => {
+      const highlights = computeMonthlyHighlights([
+        createMonthRecord({ number: 1, changeType: "bugfix" }),
+        createMonthRecord({ number: 2, changeType: "feature" }),
+        createMonthRecord({ number: 3, changeType: "bugfix" }),
+      ]);
+
+      expect(highlights.total).toBe(3);
+      expect(highlights.changeTypes).toEqual([
+        { changeType: "feature", count: 1 },
+        { changeType: "bugfix", count: 2 },
+      ]);
+    });
+
+    it("should rank breaking changes and deprecations first, then by change type and size", () => {
+      const highlights = computeMonthlyHighlights([
+        createMonthRecord({ number: 1, changeType: "bugfix", additions: 500 }),
+        createMonthRecord({ number: 2, changeType: "feature", additions: 10 }),
+        createMonthRecord({ number: 3, changeType: "feature", additions: 100 }),
+        createMonthRecord({ number: 4, changeType: "bugfix", breaking: true }),
+        createMonthRecord({ number: 5, changeType: "docs", additions: 1000 }),
+      ]);
+
+      expect(highlights.components).toEqual([
+        {
+          component: "activerecord",
+          count: 5,
+          topChanges: [
+            { number: 4, title: "Test PR", changeType: "bugfix", breaking: true },
+            { number: 3, title: "Test PR", changeType: "feature", breaking: false },
+            { number: 2, title: "Test PR", changeType: "feature", breaking: false },
+          ],
+        },
+      ]);
+    });
+
+    it("should put the busiest components first and leave out those with only minor changes", () => {
+      const highlights = computeMonthlyHighlights([
+        createMonthRecord({ number: 1, components: ["actionpack"] }),
+        createMonthRecord({ number: 2, components: ["activerecord", "activesupport"] }),
+        createMonthRecord({ number: 3, components: ["activesupport"] }),
+        createMonthRecord({ number: 4, components: ["railties"], changeType: "internal" }),
+      ]);
+
+      expect(highlights.components.map(({ component, count }) => [component, count])).toEqual([
+        ["activesupport", 2],
+        ["actionpack", 1],
+        ["activerecord", 1],
+      ]);
+    });
+
+    it("should list the authors with the most PRs, without bots", () => {
+      const highlights = computeMonthlyHighlights([
+        createMonthRecord({ number: 1, author: "alice", authorUrl: "https://github.com/alice" }),
+        createMonthRecord({ number: 2, author: "bob", authorUrl: "https://github.com/bob" }),
+        createMonthRecord({ number: 3, author: "bob", authorUrl: "https://github.com/bob" }),
+        createMonthRecord({ number: 4, author: "dependabot[bot]" }),
+        createMonthRecord({ number: 5, author: "dependabot[bot]" }),
+        createMonthRecord({ number: 6, author: null, authorUrl: null }),
+      ]);
+
+      expect(highlights.contributors).toEqual([
+        { login: "bob", url: "https://github.com/bob", count: 2 },
+        { login: "alice", url: "https://github.com/alice", count: 1 },
+      ]);
+    });
+  });
+});
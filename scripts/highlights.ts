@@ -0,0 +1,103 @@
+import {
+  CHANGE_TYPE_KEYS,
+  type ChangeClassification,
+  type ChangeType,
+  isBreakingOrDeprecation,
+} from "./change-types";
+import { COMPONENT_KEYS, type RailsComponent } from "./components";
+import type { StoredPR } from "./pr-store";
+
+// How much of the month the highlights show
+export const TOP_CHANGES_PER_COMPONENT = 3;
+export const TOP_CONTRIBUTORS = 5;
+
+// Ranking of the top changes: what apps upgrading to the next release notice first.
+// Docs and internal changes are never top changes.
+const CHANGE_TYPE_RANKS: Partial<Record<ChangeType, number>> = {
+  removal: 0,
+  deprecation: 1,
+  feature: 2,
+  performance: 3,
+  bugfix: 4,
+};
+
+export interface HighlightedPR extends ChangeClassification {
+  number: number;
+  title: string;
+}
+
+export interface MonthlyHighlights {
+  // PR count per change type, in the order of CHANGE_TYPES (types without PRs are left out)
+  changeTypes: { changeType: ChangeType; count: number }[];
+  // Components with top changes, the busiest first
+  components: { component: RailsComponent; count: number; topChanges: HighlightedPR[] }[];
+  // Authors with the most PRs (bots excluded)
+  contributors: { login: string; url: string; count: number }[];
+  total: number;
+}
+
+/**
+ * Order records by how notable their change is: breaking changes and deprecations first,
+ * then by change type, then by the size of the diff
+ */
+function compareNotability(a: StoredPR, b: StoredPR): number {
+  return (
+    Number(isBreakingOrDeprecation(b)) - Number(isBreakingOrDeprecation(a)) ||
+    (CHANGE_TYPE_RANKS[a.changeType] ?? 0) - (CHANGE_TYPE_RANKS[b.changeType] ?? 0) ||
+    b.additions + b.deletions - (a.additions + a.deletions) ||
+    b.number - a.number
+  );
+}
+
+function isTopChangeCandidate(record: StoredPR): boolean {
+  return isBreakingOrDeprecation(record) || CHANGE_TYPE_RANKS[record.changeType] !== undefined;
+}
+
+/**
+ * Compute the highlights of a month from the records listed on its page.
+ * Derived from the store only, so they can be recomputed on every render.
+ */
+export function computeMonthlyHighlights(records: StoredPR[]): MonthlyHighlights {
+  const changeTypes = CHANGE_TYPE_KEYS.map((changeType) => ({
+    changeType,
+    count: records.filter((record) => record.changeType === changeType).length,
+  })).filter(({ count }) => count > 0);
+
+  const components = COMPONENT_KEYS.map((component) => {
+    const componentRecords = records.filter((record) => record.components.includes(component));
+    return {
+      component,
+      count: componentRecords.length,
+      topChanges: componentRecords
+        .filter(isTopChangeCandidate)
+        .sort(compareNotability)
+        .slice(0, TOP_CHANGES_PER_COMPONENT)
+        .map(({ number, title, changeType, breaking }) => ({
+          number,
+          title,
+          changeType,
+          breaking,
+        })),
+    };
+  })
+    .filter(({ topChanges }) => topChanges.length > 0)
+    // Stable sort: components with as many PRs keep the order of RAILS_COMPONENTS
+    .sort((a, b) => b.count - a.count);
+
+  const authors = new Map<string, { login: string; url: string; count: number }>();
+  for (const record of records) {
+    if (!record.author || record.author.endsWith("[bot]")) continue;
+    const author = authors.get(record.author) ?? {
+      login: record.author,
+      url: record.authorUrl ?? `https://github.com/${record.author}`,
+      count: 0,
+    };
+    author.count++;
+    authors.set(record.author, author);
+  }
+  const contributors = Array.from(authors.values())
+    .sort((a, b) => b.count - a.count || a.login.localeCompare(b.login))
+    .slice(0, TOP_CONTRIBUTORS);
+
+  return { changeTypes, components, contributors, total: records.length };
+}
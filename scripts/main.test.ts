@@ -0,0 +1,149 @@
+import { existsSync } from "node:fs";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { FileManager } from "./file-manager";
+import type { PRSearchResult } from "./github-client";
+import {
+  getCollectSince,
+  getHighWaterMark,
+  getNextCollectorState,
+  parseCollectOptions,
+} from "./main";
+
+vi.mock("node:fs");
+
+function createSearchResult(number: number, mergedAt: string | null): PRSearchResult {
+  return {
+    number,
+    title: `PR ${number}`,
+    html_url: `https://github.com/rails/rails/pull/${number}`,
+    merged_at: mergedAt,
+    body: null,
+    user: null,
+  };
+}
+
+describe("main", () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  describe("parseCollectOptions", () => {
+    it("should collect since the last run without options", () => {
+      expect(parseCollectOptions([])).toEqual({ since: undefined, until: undefined });
+    });
+
+    it("should parse the dates as UTC and count the whole --until day", () => {
+      const options = parseCollectOptions(["--since", "2026-08-01", "--until", "2026-08-15"]);
+
+      expect(options.since?.toISOString()).toBe("2026-08-01T00:00:00.000Z");
+      expect(options.until?.toISOString()).toBe("2026-08-15T23:59:59.000Z");
+    });
+
+    it("should accept --since and --until on the same day", () => {
+      const options = parseCollectOptions(["--since", "2026-08-01", "--until", "2026-08-01"]);
+
+      expect(options.since?.toISOString()).toBe("2026-08-01T00:00:00.000Z");
+      expect(options.until?.toISOString()).toBe("2026-08-01T23:59:59.000Z");
+    });
+
+    it("should reject dates not in YYYY-MM-DD format", () => {
+      expect(() => parseCollectOptions(["--since", "2026/08/01"])).toThrow(
+        '--since must be a date in YYYY-MM-DD format (got "2026/08/01")',
+      );
+      expect(() => parseCollectOptions(["--since", "2026-13-01"])).toThrow(
+        "--since must be a date in YYYY-MM-DD format",
+      );
+      expect(() => parseCollectOptions(["--since", "2026-02-30"])).toThrow(
+        '--since must be a date in YYYY-MM-DD format (got "2026-02-30")',
+      );
+      expect(() => parseCollectOptions(["--since", "2026-08-01", "--until", "tomorrow"])).toThrow(
+        "--until must be a date in YYYY-MM-DD format",
+      );
+    });
+
+    it("should require --since with --until", () => {
+      expect(() => parseCollectOptions(["--until", "2026-08-15"])).toThrow(
+        "--until requires --since",
+      );
+    });
+
+    it("should reject --since later than --until", () => {
+      expect(() => parseCollectOptions(["--since", "2026-08-16", "--until", "2026-08-15"])).toThrow(
+        "--since must not be later than --until",
+      );
+    });
+  });
+
+  describe("getCollectSince", () => {
+    const now = Date.parse("2026-08-22T00:00:00Z");
+    const state = { lastMergedAt: "2026-08-21T23:30:00Z", lastRunAt: "2026-08-21T00:00:00Z" };
+
+    it("should resume from the last processed merge", () => {
+      expect(getCollectSince({}, state, now).toISOString()).toBe("2026-08-21T23:30:00.000Z");
+    });
+
+    it("should collect the last 24 hours on the first run", () => {
+      expect(getCollectSince({}, null, now).toISOString()).toBe("2026-08-21T00:00:00.000Z");
+    });
+
+    it("should collect the last 24 hours when the state file is missing", () => {
+      vi.mocked(existsSync).mockReturnValue(false);
+      const fileManager = new FileManager("/test/docs/monthly", "/test/docs/monthly-index.json");
+
+      expect(getCollectSince({}, fileManager.readCollectorState(), now).toISOString()).toBe(
+        "2026-08-21T00:00:00.000Z",
+      );
+    });
+
+    it("should start a backfill at --since regardless of the state", () => {
+      const since = new Date("2026-08-01T00:00:00Z");
+
+      expect(getCollectSince({ since }, state, now)).toBe(since);
+    });
+  });
+
+  describe("getHighWaterMark", () => {
+    it("should move to the latest merge of the fetched PRs", () => {
+      const prs = [
+        createSearchResult(1, "2026-08-21T10:00:00Z"),
+        createSearchResult(2, "2026-08-21T12:00:00Z"),
+        createSearchResult(3, null),
+      ];
+
+      expect(getHighWaterMark(prs, "2026-08-21T00:00:00.000Z")).toBe("2026-08-21T12:00:00Z");
+    });
+
+    it("should never move backwards", () => {
+      const prs = [createSearchResult(1, "2026-08-20T10:00:00Z")];
+
+      expect(getHighWaterMark(prs, "2026-08-21T00:00:00.000Z")).toBe("2026-08-21T00:00:00.000Z");
+    });
+  });
+
+  describe("getNextCollectorState", () => {
+    const since = new Date("2026-08-21T00:00:00Z");
+    const now = new Date("2026-08-22T00:00:00Z");
+
+    it("should save the latest merge of the run", () => {
+      const prs = [createSearchResult(1, "2026-08-21T10:00:00Z")];
+
+      expect(getNextCollectorState(prs, since, {}, now)).toEqual({
+        lastMergedAt: "2026-08-21T10:00:00Z",
+        lastRunAt: "2026-08-22T00:00:00.000Z",
+      });
+    });
+
+    it("should keep the start of the window when nothing was fetched", () => {
+      expect(getNextCollectorState([], since, {}, now)?.lastMergedAt).toBe(
+        "2026-08-21T00:00:00.000Z",
+      );
+    });
+
+    it("should leave the state untouched on a backfill run", () => {
+      const prs = [createSearchResult(1, "2026-08-21T10:00:00Z")];
+      const options = { since: new Date("2026-08-01T00:00:00Z"), until: now };
+
+      expect(getNextCollectorState(prs, options.since, options, now)).toBeNull();
+    });
+  });
+});
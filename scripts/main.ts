@@ -1,29 +1,242 @@
 #!/usr/bin/env tsx
 
-import { dirname, join } from "node:path";
-import { fileURLToPath } from "node:url";
-import { loadEnv } from "vitepress";
-import { FileManager } from "./file-manager";
-import { formatPREntry } from "./formatter";
-import { GitHubClient } from "./github-client";
-import { OpenAIClient } from "./openai-client";
-
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = dirname(__filename);
-
-// Configuration
-const env = loadEnv("", process.cwd(), "");
-const RAILS_OWNER = "rails";
-const RAILS_REPO = "rails";
-const GITHUB_TOKEN = env.GITHUB_TOKEN;
-const OPENAI_API_KEY = env.OPENAI_API_KEY;
-const DOCS_DIR = join(__dirname, "..", "docs", "monthly");
-const INDEX_FILE = join(__dirname, "..", "docs", "monthly-index.json");
+import { parseArgs } from "node:util";
+import { createLimiter, type Limiter } from "./concurrency";
+import {
+  BASE_BRANCH_BACKFILL_LIMIT,
+  DOCS_DIR,
+  FEED_ITEM_LIMIT,
+  GITHUB_CONCURRENCY,
+  GITHUB_TOKEN,
+  INDEX_FILE,
+  MAX_SUMMARY_ATTEMPTS,
+  MONTHLY_BUDGET_USD,
+  OPENAI_API_KEY,
+  OPENAI_CONCURRENCY,
+  PR_STORE_DIR,
+  RAILS_OWNER,
+  RAILS_REPO,
+  RELEASES_FILE,
+  RETRY_QUEUE_FILE,
+  SUMMARIZER,
+  SUMMARIZER_BASE_URL,
+  SUMMARIZER_MODEL,
+  SUMMARY_CACHE_DIR,
+  TRIVIAL_PR_MAX_LINES,
+  TRIVIAL_PR_MODE,
+  USAGE_LOG_FILE,
+  WEEKLY_OVERVIEWS_FILE,
+} from "./config";
+import { type CollectorState, FileManager } from "./file-manager";
+import { getMonthKey } from "./formatter";
+import { GitHubClient, type PRSearchResult } from "./github-client";
+import { createStoredPR, PRStore } from "./pr-store";
+import { detectBackportOf, readReleases, saveReleases } from "./releases";
+import { RetryQueue } from "./retry-queue";
+import { createSummarizer, type Summarizer } from "./summarizer";
+import { SummaryCache } from "./summary-cache";
+import {
+  createTemplateSummary,
+  createTriageOptions,
+  parseTrivialPRMode,
+  type TriageOptions,
+  type TrivialPRMode,
+  triagePR,
+} from "./triage";
+import { createBudgetCheck, formatUsageSummary, UsageLog, UsageTracker } from "./usage";
+import { getWeeksOfMonths, updateWeeklyOverviews, WeeklyOverviewStore } from "./weekly";
+
+export interface CollectOptions {
+  since?: Date;
+  until?: Date;
+}
+
+/**
+ * Parse a YYYY-MM-DD command line date (interpreted as UTC)
+ */
+function parseDateOption(name: string, value: string | undefined): Date | undefined {
+  if (value === undefined) return undefined;
+
+  const date = new Date(`${value}T00:00:00Z`);
+  // Dates past the end of the month (e.g., 2026-02-30) would roll over into the next one
+  if (
+    !/^\d{4}-\d{2}-\d{2}$/.test(value) ||
+    Number.isNaN(date.getTime()) ||
+    date.toISOString().slice(0, 10) !== value
+  ) {
+    throw new Error(`--${name} must be a date in YYYY-MM-DD format (got "${value}")`);
+  }
+  return date;
+}
+
+/**
+ * Parse command line arguments
+ * e.g., `collect --since 2026-08-01 --until 2026-08-15`
+ */
+export function parseCollectOptions(args: string[]): CollectOptions {
+  const { values } = parseArgs({
+    args,
+    options: {
+      since: { type: "string" },
+      until: { type: "string" },
+    },
+  });
+
+  const since = parseDateOption("since", values.since);
+  const until = parseDateOption("until", values.until);
+  // --until is inclusive: cover the whole day
+  until?.setUTCHours(23, 59, 59);
+
+  if (until && !since) {
+    throw new Error("--until requires --since");
+  }
+  if (since && until && since > until) {
+    throw new Error("--since must not be later than --until");
+  }
+
+  return { since, until };
+}
+
+// Window of the first run (or of a run without a state file)
+const FIRST_RUN_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Get the start of the collection window: the backfill start, else the last processed merge,
+ * else (first run or missing state file) the last 24 hours
+ */
+export function getCollectSince(
+  options: CollectOptions,
+  state: CollectorState | null,
+  now: number = Date.now(),
+): Date {
+  if (options.since) return options.since;
+  if (state) return new Date(state.lastMergedAt);
+  return new Date(now - FIRST_RUN_WINDOW_MS);
+}
+
+/**
+ * Get the new high-water mark: the latest merge time of the fetched PRs.
+ * PRs that failed are in the retry queue, so the mark can move past them.
+ */
+export function getHighWaterMark(prs: PRSearchResult[], current: string): string {
+  let highWaterMark = current;
+  for (const pr of prs) {
+    if (pr.merged_at && Date.parse(pr.merged_at) > Date.parse(highWaterMark)) {
+      highWaterMark = pr.merged_at;
+    }
+  }
+  return highWaterMark;
+}
+
+/**
+ * Get the collector state to save after a run, or null to leave it untouched:
+ * backfills may not be contiguous with the last run, so they never move the mark
+ */
+export function getNextCollectorState(
+  prs: PRSearchResult[],
+  since: Date,
+  options: CollectOptions,
+  now: Date = new Date(),
+): CollectorState | null {
+  if (options.since) return null;
+  return {
+    lastMergedAt: getHighWaterMark(prs, since.toISOString()),
+    lastRunAt: now.toISOString(),
+  };
+}
+
+interface PRProcessor {
+  githubClient: GitHubClient;
+  summarizer: Summarizer;
+  // Bound the number of calls in flight to each API
+  githubLimit: Limiter;
+  summarizerLimit: Limiter;
+  // Trivial PRs get a template summary instead of a summarizer call (null: no triage)
+  triage: TriageOptions | null;
+  // Whether the monthly budget is used up; PRs are then deferred to a later run
+  isOverBudget: () => boolean;
+}
+
+/**
+ * Fetch and summarize a PR: it is stored on success and queued for retry on failure.
+ * PRs finish in any order; the store sorts records by merge date when writing them.
+ */
+async function processPR(
+  prNumber: number,
+  processor: PRProcessor,
+  store: PRStore,
+  retryQueue: RetryQueue,
+): Promise<void> {
+  const { githubClient, summarizer, githubLimit, summarizerLimit, triage, isOverBudget } =
+    processor;
+
+  const prDetails = await githubLimit(() => githubClient.getPRDetails(prNumber));
+  if (!prDetails) {
+    retryQueue.recordFailure(prNumber, "failed to fetch PR details");
+    return;
+  }
+
+  const trivial = triage ? triagePR(prDetails, triage) : null;
+  if (trivial) {
+    console.log(`PR #${prNumber} is trivial (${trivial}), using a template summary`);
+    store.upsert(createStoredPR(prDetails, createTemplateSummary(prDetails, trivial), trivial));
+    retryQueue.remove(prNumber);
+    return;
+  }
+
+  // Checked once a slot is free, so requests already in flight may go slightly over the budget
+  const result = await summarizerLimit(() =>
+    isOverBudget() ? Promise.resolve(null) : summarizer.summarizePR(prDetails),
+  );
+  if (!result) {
+    retryQueue.defer(prNumber, "monthly budget reached");
+    return;
+  }
+  if (!result.ok) {
+    retryQueue.recordFailure(prNumber, result.error);
+    return;
+  }
+
+  store.upsert(createStoredPR(prDetails, result.summary));
+  retryQueue.remove(prNumber);
+}
+
+/**
+ * Fetch the branch of records collected before it was stored (up to `limit` per run),
+ * detecting backports along the way. Returns the number of records updated.
+ */
+async function backfillBaseBranches(
+  store: PRStore,
+  githubClient: GitHubClient,
+  githubLimit: Limiter,
+  limit: number,
+): Promise<number> {
+  const records = store
+    .all()
+    .filter((record) => record.baseBranch === null)
+    .slice(0, limit);
+  if (records.length === 0) return 0;
+
+  console.log(`Fetching the branch of ${records.length} PRs collected before it was recorded`);
+  const updated = await Promise.all(
+    records.map(async (record) => {
+      const baseBranch = await githubLimit(() => githubClient.getBaseBranch(record.number));
+      if (!baseBranch) return false;
+      store.upsert({
+        ...record,
+        baseBranch,
+        backportOf: detectBackportOf({ ...record, baseBranch }),
+      });
+      return true;
+    }),
+  );
+  return updated.filter(Boolean).length;
+}
 
 /**
  * Main execution
  */
-async function main(): Promise<void> {
+async function main(options: CollectOptions = {}): Promise<void> {
   console.log("Starting Rails PR Digest collection...\n");
 
   // Validate environment variables
@@ -32,63 +245,182 @@ async function main(): Promise<void> {
     process.exit(1);
   }
 
-  if (!OPENAI_API_KEY) {
-    console.error("Error: OPENAI_API_KEY environment variable is required");
+  const usageTracker = new UsageTracker();
+  let summarizer: Summarizer;
+  let trivialPRMode: TrivialPRMode;
+  let triageOptions: TriageOptions;
+  try {
+    summarizer = createSummarizer({
+      provider: SUMMARIZER,
+      apiKey: OPENAI_API_KEY,
+      model: SUMMARIZER_MODEL,
+      baseURL: SUMMARIZER_BASE_URL,
+      usageTracker,
+      cache: new SummaryCache(SUMMARY_CACHE_DIR),
+    });
+    trivialPRMode = parseTrivialPRMode(TRIVIAL_PR_MODE);
+    triageOptions = createTriageOptions(TRIVIAL_PR_MAX_LINES);
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
     process.exit(1);
   }
 
   // Initialize clients
   const githubClient = new GitHubClient(GITHUB_TOKEN, RAILS_OWNER, RAILS_REPO);
-  const openaiClient = new OpenAIClient(OPENAI_API_KEY);
-  const fileManager = new FileManager(DOCS_DIR, INDEX_FILE);
+  const fileManager = new FileManager(DOCS_DIR, INDEX_FILE, {
+    trivialPRMode,
+    feedItemLimit: FEED_ITEM_LIMIT,
+  });
+  const store = new PRStore(PR_STORE_DIR);
+  store.load();
+  const retryQueue = new RetryQueue(RETRY_QUEUE_FILE, MAX_SUMMARY_ATTEMPTS);
+  retryQueue.load();
+  const usageLog = new UsageLog(USAGE_LOG_FILE);
+  const weeklyOverviews = new WeeklyOverviewStore(WEEKLY_OVERVIEWS_FILE);
+  weeklyOverviews.load();
+
+  // Fail before any API call when the pages cannot be published from the store
+  if (!fileManager.checkPagesInStore(store)) {
+    process.exit(1);
+  }
+
+  // Spend of earlier runs this month, for the budget cap
+  const spentThisMonth = usageLog.getMonthlyCost(getMonthKey());
+  let isOverBudget: () => boolean;
+  try {
+    isOverBudget = createBudgetCheck(MONTHLY_BUDGET_USD, spentThisMonth, usageTracker);
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+  if (MONTHLY_BUDGET_USD !== undefined) {
+    console.log(
+      `Monthly budget: $${spentThisMonth.toFixed(2)} of $${MONTHLY_BUDGET_USD.toFixed(2)} spent`,
+    );
+  }
+
+  // Determine the window: either a backfill date range or everything merged since the last run
+  const isBackfill = options.since !== undefined;
+  const state = isBackfill ? null : fileManager.readCollectorState();
+  const since = getCollectSince(options, state);
+  if (state) {
+    console.log(`Resuming from the last processed merge: ${state.lastMergedAt}`);
+  } else if (!isBackfill) {
+    console.log("No collector state found, collecting PRs merged in the last 24 hours");
+  }
 
-  // Fetch recent PRs
-  const prs = await githubClient.fetchRecentPRs();
+  const prs = await githubClient.fetchMergedPRs(since, options.until);
+  const newPRs: PRSearchResult[] = [];
 
   if (prs.length === 0) {
-    console.log("No merged PRs found in the last 24 hours");
+    console.log(`No merged PRs found since ${since.toISOString()}`);
   } else {
-    // Get existing PR numbers to avoid duplicates
-    const existingPRs = fileManager.getExistingPRNumbers();
-    console.log(`Found ${existingPRs.size} existing PRs in the current month's file`);
+    // Get existing PR numbers from the store to avoid duplicates
+    const existingPRs = store.getPRNumbers();
+    console.log(`Found ${existingPRs.size} existing PRs`);
 
-    // Filter out already processed PRs
-    const newPRs = prs.filter((pr) => !existingPRs.has(pr.number));
+    // Filter out already processed PRs (queued failures are retried below)
+    newPRs.push(...prs.filter((pr) => !existingPRs.has(pr.number) && !retryQueue.has(pr.number)));
     console.log(
-      `${newPRs.length} new PRs to process (${prs.length - newPRs.length} already exist)`,
+      `${newPRs.length} new PRs to process (${prs.length - newPRs.length} already exist or are queued)`,
     );
+  }
+
+  const retryPRs = retryQueue.getPending();
+  if (retryPRs.length > 0) {
+    console.log(`${retryPRs.length} failed PRs to retry`);
+  }
 
-    if (newPRs.length > 0) {
-      // Process each PR
-      const entries: string[] = [];
-      for (const pr of newPRs) {
-        console.log(`\nProcessing PR #${pr.number}: ${pr.title}`);
+  if (newPRs.length === 0 && retryPRs.length === 0) {
+    console.log("No new PRs to add");
+  }
 
-        const prDetails = await githubClient.getPRDetails(pr.number);
-        if (!prDetails) continue;
+  // Process PRs concurrently, within the limits of each API
+  const processor: PRProcessor = {
+    githubClient,
+    summarizer,
+    githubLimit: createLimiter(GITHUB_CONCURRENCY),
+    summarizerLimit: createLimiter(OPENAI_CONCURRENCY),
+    triage: trivialPRMode === "summarize" ? null : triageOptions,
+    isOverBudget,
+  };
+  await Promise.all([
+    ...newPRs.map((pr) => {
+      console.log(`Processing PR #${pr.number}: ${pr.title}`);
+      return processPR(pr.number, processor, store, retryQueue);
+    }),
+    ...retryPRs.map((item) => {
+      console.log(`Retrying PR #${item.number} (attempt ${item.attempts + 1})`);
+      return processPR(item.number, processor, store, retryQueue);
+    }),
+  ]);
 
-        const summary = await openaiClient.summarizePR(prDetails);
-        const entry = formatPREntry(prDetails.pr, summary);
-        entries.push(entry);
+  // Months of the newly summarized PRs: the backfill below marks older months dirty too
+  const summarizedMonths = store.getDirtyMonths();
+  const backfilled = await backfillBaseBranches(
+    store,
+    githubClient,
+    processor.githubLimit,
+    BASE_BRANCH_BACKFILL_LIMIT,
+  );
+  if (backfilled > 0) {
+    console.log(`Recorded the branch of ${backfilled} PRs`);
+  }
 
-        // Rate limiting: wait 1 second between requests
-        await new Promise((resolve) => setTimeout(resolve, 1000));
-      }
+  // Keep the releases of the last run when they cannot be fetched
+  const fetchedReleases = await githubClient.fetchReleases();
+  if (fetchedReleases) {
+    saveReleases(RELEASES_FILE, fetchedReleases);
+  }
+  const releases = fetchedReleases ?? readReleases(RELEASES_FILE);
 
-      // Update monthly file
-      fileManager.updateMonthlyFile(entries);
+  // Persist the new PRs (pages are re-rendered for the months they were merged in)
+  const updatedMonths = store.getDirtyMonths();
+  store.save();
+  retryQueue.save();
 
-      // Generate monthly index
-      fileManager.generateMonthlyIndex();
-    } else {
-      console.log("No new PRs to add");
-    }
+  // Rewrite the overviews of the weeks that got new PRs
+  const updatedWeeks = await updateWeeklyOverviews(
+    getWeeksOfMonths(store, summarizedMonths),
+    store,
+    weeklyOverviews,
+    summarizer,
+    processor.isOverBudget,
+  );
+  if (updatedWeeks.length > 0) {
+    weeklyOverviews.save();
+    console.log(`Updated the overviews of ${updatedWeeks.length} weeks`);
   }
 
-  // Extract PRs from monthly markdown files and save to JSON for RSS feed
-  // RSS feed will be generated at VitePress build time using buildEnd hook
-  console.log("\nExtracting PR data from monthly files for RSS feed...");
-  fileManager.extractAndSavePRsFromMonthlyFiles();
+  // Report and log the cost of the run
+  const usage = usageTracker.toLogEntry("collect");
+  console.log(`\n${formatUsageSummary(usage)}`);
+  const unpriced = usageTracker.getUnpricedModels();
+  if (unpriced.length > 0) {
+    console.warn(`No price known for ${unpriced.join(", ")}, their cost is not counted`);
+  }
+  if (usage.requests > 0) {
+    usageLog.append(usage);
+  }
+
+  const exhausted = retryQueue.getExhausted();
+  if (exhausted.length > 0) {
+    console.warn(
+      `${exhausted.length} PRs ran out of attempts (use resummarize to retry): ${exhausted.map((item) => `#${item.number}`).join(", ")}`,
+    );
+  }
+
+  // Advance the high-water mark (backfills leave it untouched)
+  const nextState = getNextCollectorState(prs, since, options);
+  if (nextState) {
+    fileManager.saveCollectorState(nextState);
+  }
+
+  // Render pages, monthly index and RSS feed data from the store
+  console.log("\nPublishing from the PR store...");
+  if (!fileManager.publish(store, updatedMonths, weeklyOverviews, releases)) {
+    process.exit(1);
+  }
 
   console.log("\n✓ Rails PR Digest collection completed!");
   console.log("Note: RSS feed will be generated during VitePress build (buildEnd hook)");
@@ -96,7 +428,7 @@ async function main(): Promise<void> {
 
 // Run main function only when executed directly (not imported)
 if (import.meta.url === `file://${process.argv[1]}`) {
-  main().catch((error) => {
+  main(parseCollectOptions(process.argv.slice(2))).catch((error) => {
     console.error("Fatal error:", error);
     process.exit(1);
   });
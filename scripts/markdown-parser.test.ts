@@ -0,0 +1,205 @@
+import { describe, expect, it } from "vitest";
+import {
+  convertJapaneseDateToISO,
+  parseMonthlyMarkdown,
+  unsanitizeFromVitePress,
+} from "./markdown-parser";
+
+const header = `---
+title: 2025年 12月
+description: Ruby on Rails PR Digest - 2025年 12月にマージされたPRの要約
+lastUpdated: 2025-12-20
+---
+
+# Ruby on Rails PR Digest - 2025年 12月
+
+> このページは [rails/rails](https://github.com/rails/rails) リポジトリにマージされたPull Requestを自動的に収集し、AIで要約したものです。
+
+`;
+
+function entry(number: number, summary: string, title = `PR ${number} {#pr-${number}}`): string {
+  return `
+## [#${number}](https://github.com/rails/rails/pull/${number}) ${title}
+
+**マージ日**: 2025/12/17 | **作成者**: [@testuser](https://github.com/testuser)
+
+${summary}
+
+---
+`;
+}
+
+describe("markdown-parser", () => {
+  describe("parseMonthlyMarkdown", () => {
+    it("should parse entry metadata and summary", () => {
+      const content = `${header}${entry(12345, "This PR fixes a bug.", "Fix authentication bug {#pr-12345}")}`;
+
+      const { entries, failures } = parseMonthlyMarkdown(content, "2025-12.md");
+
+      expect(failures).toEqual([]);
+      expect(entries).toEqual([
+        {
+          line: 12,
+          number: 12345,
+          title: "Fix authentication bug",
+          url: "https://github.com/rails/rails/pull/12345",
+          mergedAt: "2025-12-17T00:00:00.000Z",
+          author: "testuser",
+          authorUrl: "https://github.com/testuser",
+          summary: "This PR fixes a bug.",
+        },
+      ]);
+    });
+
+    it("should parse metadata lines with additional fields", () => {
+      const content = `${header}${entry(1, "Summary").replace(
+        "(https://github.com/testuser)",
+        "(https://github.com/testuser) | **コンポーネント**: Active Record",
+      )}`;
+
+      const { entries } = parseMonthlyMarkdown(content, "2025-12.md");
+
+      expect(entries[0].authorUrl).toBe("https://github.com/testuser");
+    });
+
+    it("should parse entries without the anchor", () => {
+      const content = `${header}${entry(1, "Summary", "Old style title")}`;
+
+      const { entries } = parseMonthlyMarkdown(content, "2025-12.md");
+
+      expect(entries[0].title).toBe("Old style title");
+    });
+
+    it("should drop change type badges from the title", () => {
+      const title =
+        'Remove API <Badge type="danger" text="削除" /> <Badge type="danger" text="破壊的変更" /> {#pr-1}';
+      const content = `${header}${entry(1, "Summary", title)}`;
+
+      const { entries } = parseMonthlyMarkdown(content, "2025-12.md");
+
+      expect(entries[0].title).toBe("Remove API");
+    });
+
+    it("should end the last entry at the other changes section", () => {
+      const content = `${header}${entry(1, "Summary")}\n## その他の変更\n\n- [#2](url) Fix typo\n`;
+
+      const { entries } = parseMonthlyMarkdown(content, "2025-12.md");
+
+      expect(entries.map((e) => e.summary)).toEqual(["Summary"]);
+    });
+
+    it("should keep horizontal rules inside summaries", () => {
+      const summary = "1. 概要\n\n---\n\n2. 変更内容の詳細\n\n---\n\n3. 影響範囲";
+      const content = `${header}${[entry(1, summary), entry(2, "Second")].join("\n")}`;
+
+      const { entries } = parseMonthlyMarkdown(content, "2025-12.md");
+
+      expect(entries).toHaveLength(2);
+      expect(entries[0].summary).toBe(summary);
+      expect(entries[1].summary).toBe("Second");
+    });
+
+    it("should keep headings and code fences inside summaries", () => {
+      const summary = [
+        "### 背景",
+        "",
+        "```markdown",
+        "## [#999](https://github.com/rails/rails/pull/999) Not an entry",
+        "",
+        "---",
+        "```",
+        "",
+        "## 参考情報",
+      ].join("\n");
+      const content = `${header}${[entry(1, summary), entry(2, "Second")].join("\n")}`;
+
+      const { entries, failures } = parseMonthlyMarkdown(content, "2025-12.md");
+
+      expect(failures).toEqual([]);
+      expect(entries.map((e) => e.number)).toEqual([1, 2]);
+      expect(entries[0].summary).toBe(summary);
+    });
+
+    it("should recover the next entry after an unclosed code fence", () => {
+      const summary = "```ruby\nputs :unclosed";
+      const content = `${header}${[entry(1, summary), entry(2, "Second")].join("\n")}`;
+
+      const { entries } = parseMonthlyMarkdown(content, "2025-12.md");
+
+      expect(entries.map((e) => e.number)).toEqual([1, 2]);
+      expect(entries[0].summary).toBe(summary);
+    });
+
+    it("should report headings without a metadata line", () => {
+      const summary = "Details\n\n## [#999](https://github.com/rails/rails/pull/999) Related PR";
+      const content = `${header}${entry(1, summary)}`;
+
+      const { entries, failures } = parseMonthlyMarkdown(content, "2025-12.md");
+
+      expect(entries).toHaveLength(1);
+      expect(entries[0].summary).toBe(summary);
+      expect(failures).toEqual([
+        expect.objectContaining({ filename: "2025-12.md", number: 999, line: 18 }),
+      ]);
+    });
+
+    it("should report entries with an invalid merge date", () => {
+      const content = `${header}${entry(1, "Summary").replace("2025/12/17", "Invalid Date")}`;
+
+      const { entries, failures } = parseMonthlyMarkdown(content, "2025-12.md");
+
+      expect(entries).toEqual([]);
+      expect(failures).toEqual([
+        expect.objectContaining({ number: 1, reason: 'invalid merge date "Invalid Date"' }),
+      ]);
+    });
+
+    it("should report entries with an empty summary", () => {
+      const content = `${header}${entry(1, "")}`;
+
+      const { entries, failures } = parseMonthlyMarkdown(content, "2025-12.md");
+
+      expect(entries).toEqual([]);
+      expect(failures[0].reason).toBe("summary is empty");
+    });
+
+    it("should restore escaped component-like tags", () => {
+      const content = `${header}${entry(1, "Returns Array&lt;String>.")}`;
+
+      const { entries } = parseMonthlyMarkdown(content, "2025-12.md");
+
+      expect(entries[0].summary).toBe("Returns Array<String>.");
+    });
+
+    it("should map unknown authors to null", () => {
+      const content = `${header}${entry(1, "Summary").replace(
+        "[@testuser](https://github.com/testuser)",
+        "[@unknown](#)",
+      )}`;
+
+      const { entries } = parseMonthlyMarkdown(content, "2025-12.md");
+
+      expect(entries[0].author).toBeNull();
+      expect(entries[0].authorUrl).toBeNull();
+    });
+  });
+
+  describe("convertJapaneseDateToISO", () => {
+    it("should convert Japanese date format to ISO 8601", () => {
+      expect(convertJapaneseDateToISO("2026/8/21")).toBe("2026-08-21T00:00:00.000Z");
+    });
+
+    it("should return null for invalid dates", () => {
+      expect(convertJapaneseDateToISO("Invalid Date")).toBeNull();
+      expect(convertJapaneseDateToISO("2026/2/30")).toBeNull();
+    });
+  });
+
+  describe("unsanitizeFromVitePress", () => {
+    it("should restore escaped opening and closing tags", () => {
+      expect(unsanitizeFromVitePress("&lt;Component>&lt;/Component>")).toBe(
+        "<Component></Component>",
+      );
+    });
+  });
+});
@@ -0,0 +1,189 @@
+import { FenceTracker } from "./code-blocks";
+
+export interface ParsedEntry {
+  // 1-based line of the entry heading
+  line: number;
+  number: number;
+  title: string;
+  url: string;
+  // ISO 8601; pages only show the merge date, so the time is always midnight UTC
+  mergedAt: string;
+  author: string | null;
+  authorUrl: string | null;
+  summary: string;
+}
+
+export interface ParseFailure {
+  filename: string;
+  line: number;
+  number: number | null;
+  reason: string;
+}
+
+export interface ParseResult {
+  entries: ParsedEntry[];
+  failures: ParseFailure[];
+}
+
+// ## [#123](https://github.com/rails/rails/pull/123) Title {#pr-123}
+const HEADING_PATTERN = /^## \[#(\d+)\]\((\S+)\) (.*)$/;
+const ANCHOR_PATTERN = /\s*\{#pr-\d+\}\s*$/;
+// Change type badges between the title and the anchor, e.g., <Badge type="tip" text="新機能" />
+const BADGES_PATTERN = /(?:\s*<Badge [^>]*\/>)+\s*$/;
+// **マージ日**: 2025/12/17 | **作成者**: [@testuser](https://github.com/testuser)
+// Fields added later (e.g., " | **コンポーネント**: Active Record") may follow
+const METADATA_PATTERN =
+  /^\*\*マージ日\*\*: (.+?) \| \*\*作成者\*\*: \[@(.+?)\]\((.*?)\)(?: \| \*\*.+)?\s*$/;
+// Section of trivial PRs after the last entry
+const OTHER_CHANGES_HEADING = "## その他の変更";
+
+/**
+ * Undo sanitizeForVitePress so the store keeps the summary as it was generated
+ * e.g., Array&lt;String> → Array<String>
+ */
+export function unsanitizeFromVitePress(text: string): string {
+  return text.replace(/&lt;(\/?)([A-Z])/g, "<$1$2");
+}
+
+/**
+ * Convert Japanese date format (2025/12/17) to ISO 8601 (midnight UTC)
+ */
+export function convertJapaneseDateToISO(dateStr: string): string | null {
+  const match = dateStr.trim().match(/^(\d{4})\/(\d{1,2})\/(\d{1,2})/);
+  if (!match) return null;
+
+  const [year, month, day] = match.slice(1).map((part) => Number.parseInt(part, 10));
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+
+  return date.toISOString();
+}
+
+/**
+ * Get the index of the first non-empty line after the given line
+ */
+function nextNonEmptyLine(lines: string[], index: number): number {
+  let next = index + 1;
+  while (next < lines.length && lines[next].trim() === "") next++;
+  return next;
+}
+
+/**
+ * An entry starts with a heading immediately followed by its metadata line
+ */
+function isEntryStart(lines: string[], index: number): boolean {
+  return (
+    HEADING_PATTERN.test(lines[index]) &&
+    METADATA_PATTERN.test(lines[nextNonEmptyLine(lines, index)] ?? "")
+  );
+}
+
+/**
+ * Find the line indexes of entry headings. Headings inside code fences are ignored,
+ * unless they start a real entry (which means the summary left its fence unclosed).
+ * Headings without a metadata line are returned as orphans: they stay part of the summary.
+ */
+function findEntryStarts(lines: string[]): { starts: number[]; orphans: number[] } {
+  const starts: number[] = [];
+  const orphans: number[] = [];
+  const fences = new FenceTracker();
+
+  lines.forEach((line, index) => {
+    if (isEntryStart(lines, index)) {
+      fences.reset();
+      starts.push(index);
+      return;
+    }
+
+    if (fences.isCode(line)) {
+      return;
+    }
+    if (HEADING_PATTERN.test(line)) {
+      orphans.push(index);
+    }
+  });
+
+  return { starts, orphans };
+}
+
+/**
+ * Parse a generated monthly markdown file back into its entries.
+ * An entry is a heading, its metadata line and everything up to the separator (`---`)
+ * that precedes the next heading, so summaries may contain their own `---`, headings
+ * and code fences.
+ */
+export function parseMonthlyMarkdown(content: string, filename: string): ParseResult {
+  const entries: ParsedEntry[] = [];
+  const failures: ParseFailure[] = [];
+
+  // Blank out the frontmatter instead of removing it, to keep line numbers accurate
+  const lines = content.replace(/\r\n/g, "\n").split("\n");
+  if (lines[0] === "---") {
+    const end = lines.indexOf("---", 1);
+    for (let i = 0; i <= end; i++) lines[i] = "";
+  }
+
+  const { starts, orphans } = findEntryStarts(lines);
+
+  for (const line of orphans) {
+    const number = Number.parseInt(lines[line].match(HEADING_PATTERN)?.[1] ?? "", 10);
+    failures.push({
+      filename,
+      line: line + 1,
+      number,
+      reason: "heading without a metadata line (kept as part of the previous summary)",
+    });
+  }
+
+  // The last entry ends where the section of trivial PRs starts
+  const otherChangesLine = lines.lastIndexOf(OTHER_CHANGES_HEADING);
+
+  starts.forEach((start, i) => {
+    const end =
+      i < starts.length - 1
+        ? starts[i + 1]
+        : otherChangesLine > start
+          ? otherChangesLine
+          : lines.length;
+    const [, numberStr, url, rawTitle] = lines[start].match(HEADING_PATTERN) ?? [];
+    const number = Number.parseInt(numberStr, 10);
+    const fail = (reason: string) => failures.push({ filename, line: start + 1, number, reason });
+
+    const metadataLine = nextNonEmptyLine(lines, start);
+    const metadataMatch = lines[metadataLine].match(METADATA_PATTERN) ?? [];
+
+    const mergedAt = convertJapaneseDateToISO(metadataMatch[1]);
+    if (!mergedAt) {
+      fail(`invalid merge date "${metadataMatch[1]}"`);
+      return;
+    }
+
+    // Drop trailing blank lines, then the separator that closes the entry
+    const body = lines.slice(metadataLine + 1, end);
+    while (body.length > 0 && body[body.length - 1].trim() === "") body.pop();
+    if (body.length > 0 && body[body.length - 1].trim() === "---") body.pop();
+
+    const summary = unsanitizeFromVitePress(body.join("\n").replace(/^\n+|\n+$/g, ""));
+    if (summary.trim() === "") {
+      fail("summary is empty");
+      return;
+    }
+
+    const author = metadataMatch[2].trim();
+    const authorUrl = metadataMatch[3].trim();
+    const isUnknownAuthor = author === "unknown" && authorUrl === "#";
+
+    entries.push({
+      line: start + 1,
+      number,
+      title: rawTitle.replace(ANCHOR_PATTERN, "").replace(BADGES_PATTERN, "").trim(),
+      url,
+      mergedAt,
+      author: isUnknownAuthor ? null : author,
+      authorUrl: isUnknownAuthor ? null : authorUrl,
+      summary,
+    });
+  });
+
+  return { entries, failures };
+}
@@ -0,0 +1,185 @@
+#!/usr/bin/env tsx
+
+import { parseArgs } from "node:util";
+import { classifyChange } from "./change-types";
+import {
+  DOCS_DIR,
+  FEED_ITEM_LIMIT,
+  GITHUB_TOKEN,
+  INDEX_FILE,
+  PR_STORE_DIR,
+  RAILS_OWNER,
+  RAILS_REPO,
+  RELEASES_FILE,
+  TRIVIAL_PR_MODE,
+  WEEKLY_OVERVIEWS_FILE,
+} from "./config";
+import { FileManager } from "./file-manager";
+import { GitHubClient } from "./github-client";
+import { type ParsedEntry, type ParseFailure, parseMonthlyMarkdown } from "./markdown-parser";
+import { createStoredPR, PRStore, type StoredPR } from "./pr-store";
+import { readReleases } from "./releases";
+import { parseTrivialPRMode } from "./triage";
+import { WeeklyOverviewStore } from "./weekly";
+
+export interface MigrateOptions {
+  dryRun: boolean;
+  fetchDetails: boolean;
+}
+
+/**
+ * Parse command line arguments
+ * e.g., `migrate --dry-run`, `migrate --fetch-details`
+ */
+export function parseMigrateOptions(args: string[]): MigrateOptions {
+  const { values } = parseArgs({
+    args,
+    options: {
+      "dry-run": { type: "boolean", default: false },
+      "fetch-details": { type: "boolean", default: false },
+    },
+  });
+
+  return { dryRun: values["dry-run"], fetchDetails: values["fetch-details"] };
+}
+
+/**
+ * Build a store record from a parsed entry. Details that pages never contained
+ * (body, files, line counts, branch) are left empty.
+ */
+export function createMigratedPR(entry: ParsedEntry, filename: string): StoredPR {
+  return {
+    number: entry.number,
+    title: entry.title,
+    url: entry.url,
+    mergedAt: entry.mergedAt,
+    author: entry.author,
+    authorUrl: entry.authorUrl,
+    body: null,
+    additions: 0,
+    deletions: 0,
+    changedFiles: 0,
+    files: [],
+    labels: [],
+    baseBranch: null,
+    backportOf: null,
+    components: [],
+    ...classifyChange([], [], entry.title, entry.summary),
+    summary: entry.summary,
+    trivial: null,
+    collectedAt: new Date().toISOString(),
+    migratedFrom: filename,
+  };
+}
+
+/**
+ * Print the entries that could not be recovered
+ */
+function printReport(failures: ParseFailure[]): void {
+  if (failures.length === 0) {
+    console.log("All entries were recovered");
+    return;
+  }
+
+  console.log(`\n${failures.length} entries could not be recovered:`);
+  for (const failure of failures) {
+    const prLabel = failure.number !== null ? `#${failure.number}` : "(unknown PR)";
+    console.log(`- ${failure.filename}:${failure.line} ${prLabel}: ${failure.reason}`);
+  }
+}
+
+/**
+ * Rebuild the PR store from the existing monthly markdown files
+ */
+async function migrate(options: MigrateOptions): Promise<void> {
+  console.log("Migrating monthly markdown files into the PR store...\n");
+
+  if (options.fetchDetails && !GITHUB_TOKEN) {
+    console.error("Error: GITHUB_TOKEN environment variable is required for --fetch-details");
+    process.exit(1);
+  }
+
+  const fileManager = new FileManager(DOCS_DIR, INDEX_FILE, {
+    trivialPRMode: parseTrivialPRMode(TRIVIAL_PR_MODE),
+    feedItemLimit: FEED_ITEM_LIMIT,
+  });
+  const store = new PRStore(PR_STORE_DIR);
+  store.load();
+  const weeklyOverviews = new WeeklyOverviewStore(WEEKLY_OVERVIEWS_FILE);
+  weeklyOverviews.load();
+
+  const githubClient = options.fetchDetails
+    ? new GitHubClient(GITHUB_TOKEN, RAILS_OWNER, RAILS_REPO)
+    : null;
+
+  const failures: ParseFailure[] = [];
+  const seen = new Map<number, string>();
+  let migrated = 0;
+  let skipped = 0;
+
+  for (const { filename, content } of fileManager.readMonthlyPages()) {
+    const result = parseMonthlyMarkdown(content, filename);
+    failures.push(...result.failures);
+    console.log(`${filename}: ${result.entries.length} entries parsed`);
+
+    for (const entry of result.entries) {
+      const duplicateOf = seen.get(entry.number);
+      if (duplicateOf) {
+        failures.push({
+          filename,
+          line: entry.line,
+          number: entry.number,
+          reason: `duplicate of the entry in ${duplicateOf} (skipped)`,
+        });
+        continue;
+      }
+      seen.set(entry.number, filename);
+
+      // Records written by the collector have more details than the pages
+      if (store.has(entry.number)) {
+        skipped++;
+        continue;
+      }
+
+      let record = createMigratedPR(entry, filename);
+      if (githubClient && !options.dryRun) {
+        const prDetails = await githubClient.getPRDetails(entry.number);
+        if (prDetails) {
+          record = { ...createStoredPR(prDetails, entry.summary), migratedFrom: filename };
+        }
+      }
+
+      store.upsert(record);
+      migrated++;
+    }
+  }
+
+  console.log(`\n${migrated} entries migrated (${skipped} already in the PR store)`);
+  printReport(failures);
+
+  if (options.dryRun) {
+    console.log("\nDry run: nothing was written");
+    return;
+  }
+
+  // Persist the store, then re-render every page from it
+  store.save();
+  if (
+    !fileManager.publish(store, store.listMonths(), weeklyOverviews, readReleases(RELEASES_FILE))
+  ) {
+    console.error("Fix the entries reported above and run the migration again");
+    process.exit(1);
+  }
+
+  console.log("\n✓ Migration completed!");
+}
+
+// Run migrate function only when executed directly (not imported)
+if (import.meta.url === `file://${process.argv[1]}`) {
+  migrate(parseMigrateOptions(process.argv.slice(2))).catch((error) => {
+    console.error("Fatal error:", error);
+    process.exit(1);
+  });
+}
+
+export { migrate };
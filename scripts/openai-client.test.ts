@@ -1,7 +1,9 @@
 import OpenAI from "openai";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import type { PRDetails } from "./github-client";
-import { OpenAIClient } from "./openai-client";
+import { OpenAIClient, PROMPT_VERSION } from "./openai-client";
+import { SummaryCache } from "./summary-cache";
+import { UsageTracker } from "./usage";
 
 // Mock the entire openai module
 vi.mock("openai", () => {
@@ -16,6 +18,16 @@ vi.mock("openai", () => {
   };
 });
 
+const validSummary = {
+  overview: "AI generated summary of the PR",
+  details: "Details",
+  impact: "Impact",
+  references: ["https://github.com/rails/rails/issues/100"],
+  codeSamples: [{ language: "ruby", code: "User.authenticate", description: "Usage" }],
+  changeType: "feature" as const,
+  breaking: false,
+};
+
 describe("OpenAIClient", () => {
   let client: OpenAIClient;
 
@@ -36,7 +48,7 @@ describe("OpenAIClient", () => {
         choices: [
           {
             message: {
-              content: "AI generated summary of the PR",
+              content: JSON.stringify(validSummary),
             },
           },
         ],
@@ -51,6 +63,10 @@ describe("OpenAIClient", () => {
           merged_at: "2025-11-24T10:00:00Z",
           additions: 10,
           deletions: 5,
+          changed_files: 1,
+          labels: [],
+          head_sha: "abc123",
+          base_ref: "main",
           user: {
             login: "testuser",
             html_url: "https://github.com/testuser",
@@ -63,20 +79,188 @@ describe("OpenAIClient", () => {
             deletions: 5,
           },
         ],
+        linkedIssues: [],
+        comments: [],
+        changelogEntries: [],
       };
 
       const result = await client.summarizePR(mockPRData);
 
-      expect(typeof result).toBe("string");
-      expect(result).toContain("AI generated summary");
+      expect(result).toEqual({ ok: true, summary: validSummary });
       expect(mockCreate).toHaveBeenCalledWith(
         expect.objectContaining({
           model: "gpt-5.1",
           prompt_cache_retention: "24h",
+          response_format: expect.objectContaining({ type: "json_schema" }),
         }),
       );
     });
 
+    it("should report the total number of changed files in the prompt", async () => {
+      const mockCreate = vi.spyOn(OpenAI.prototype.chat.completions, "create") as any;
+
+      mockCreate.mockResolvedValue({
+        choices: [{ message: { content: JSON.stringify(validSummary) } }],
+      });
+
+      const mockPRData: PRDetails = {
+        pr: {
+          number: 12345,
+          title: "Large refactoring",
+          body: null,
+          html_url: "https://github.com/rails/rails/pull/12345",
+          merged_at: "2025-11-24T10:00:00Z",
+          additions: 1000,
+          deletions: 1000,
+          changed_files: 150,
+          labels: [],
+          head_sha: "abc123",
+          base_ref: "main",
+          user: null,
+        },
+        files: Array.from({ length: 150 }, (_, i) => ({
+          filename: `file${i}.rb`,
+          additions: 1,
+          deletions: 1,
+        })),
+        linkedIssues: [],
+        comments: [],
+        changelogEntries: [],
+      };
+
+      await client.summarizePR(mockPRData);
+
+      const prompt = mockCreate.mock.calls[0][0].messages[0].content as string;
+      expect(prompt).toContain("変更ファイル数: 150");
+      expect(prompt).toContain("... 他 130 ファイル");
+      expect(prompt).toContain("file19.rb");
+      expect(prompt).not.toContain("file20.rb");
+    });
+
+    it("should include file patches in the prompt", async () => {
+      const mockCreate = vi.spyOn(OpenAI.prototype.chat.completions, "create") as any;
+
+      mockCreate.mockResolvedValue({
+        choices: [{ message: { content: JSON.stringify(validSummary) } }],
+      });
+
+      const mockPRData: PRDetails = {
+        pr: {
+          number: 12345,
+          title: "Add option",
+          body: null,
+          html_url: "https://github.com/rails/rails/pull/12345",
+          merged_at: "2025-11-24T10:00:00Z",
+          additions: 1,
+          deletions: 0,
+          changed_files: 1,
+          labels: [],
+          head_sha: "abc123",
+          base_ref: "main",
+          user: null,
+        },
+        files: [
+          {
+            filename: "activerecord/lib/active_record/base.rb",
+            additions: 1,
+            deletions: 0,
+            patch: "@@ -1,0 +1,1 @@\n+def new_option; end",
+          },
+        ],
+        linkedIssues: [],
+        comments: [],
+        changelogEntries: [],
+      };
+
+      await client.summarizePR(mockPRData);
+
+      const prompt = mockCreate.mock.calls[0][0].messages[0].content as string;
+      expect(prompt).toContain("+def new_option; end");
+    });
+
+    it("should include linked issues, comments and CHANGELOG additions in the prompt", async () => {
+      const mockCreate = vi.spyOn(OpenAI.prototype.chat.completions, "create") as any;
+
+      mockCreate.mockResolvedValue({
+        choices: [{ message: { content: JSON.stringify(validSummary) } }],
+      });
+
+      const mockPRData: PRDetails = {
+        pr: {
+          number: 12345,
+          title: "Fix bug",
+          body: "Fixes #100",
+          html_url: "https://github.com/rails/rails/pull/12345",
+          merged_at: "2025-11-24T10:00:00Z",
+          additions: 1,
+          deletions: 0,
+          changed_files: 1,
+          labels: [],
+          head_sha: "abc123",
+          base_ref: "main",
+          user: null,
+        },
+        files: [],
+        linkedIssues: [
+          {
+            number: 100,
+            title: "Crash on save",
+            html_url: "https://github.com/rails/rails/issues/100",
+            body: "Steps to reproduce",
+          },
+        ],
+        comments: [{ author: "reviewer", body: "Can we avoid the extra query?" }],
+        changelogEntries: [{ filename: "activerecord/CHANGELOG.md", text: "*   Fix crash." }],
+      };
+
+      await client.summarizePR(mockPRData);
+
+      const prompt = mockCreate.mock.calls[0][0].messages[0].content as string;
+      expect(prompt).toContain("- #100 Crash on save\nSteps to reproduce");
+      expect(prompt).toContain("- @reviewer: Can we avoid the extra query?");
+      expect(prompt).toContain("activerecord/CHANGELOG.md:\n*   Fix crash.");
+    });
+
+    it("should use the configured model and server", async () => {
+      const mockCreate = vi.spyOn(OpenAI.prototype.chat.completions, "create") as any;
+
+      mockCreate.mockResolvedValue({
+        choices: [{ message: { content: JSON.stringify(validSummary) } }],
+      });
+
+      const localClient = new OpenAIClient("not-needed", {
+        model: "llama3.1",
+        baseURL: "http://localhost:11434/v1",
+      });
+      await localClient.summarizePR({
+        pr: {
+          number: 12345,
+          title: "Test PR",
+          body: null,
+          html_url: "https://github.com/rails/rails/pull/12345",
+          merged_at: "2025-11-24T10:00:00Z",
+          additions: 1,
+          deletions: 1,
+          changed_files: 1,
+          labels: [],
+          head_sha: "abc123",
+          base_ref: "main",
+          user: null,
+        },
+        files: [],
+        linkedIssues: [],
+        comments: [],
+        changelogEntries: [],
+      });
+
+      expect(OpenAI).toHaveBeenLastCalledWith(
+        expect.objectContaining({ baseURL: "http://localhost:11434/v1" }),
+      );
+      const request = mockCreate.mock.calls[0][0];
+      expect(request.model).toBe("llama3.1");
+      expect(request).not.toHaveProperty("prompt_cache_retention");
+    });
+
     it("should handle OpenAI API error gracefully", async () => {
       const mockCreate = vi.spyOn(OpenAI.prototype.chat.completions, "create") as any;
 
@@ -91,17 +275,285 @@ describe("OpenAIClient", () => {
           merged_at: "2025-11-24T10:00:00Z",
           additions: 10,
           deletions: 5,
+          changed_files: 0,
+          labels: [],
+          head_sha: "abc123",
+          base_ref: "main",
           user: {
             login: "testuser",
             html_url: "https://github.com/testuser",
           },
         },
         files: [],
+        linkedIssues: [],
+        comments: [],
+        changelogEntries: [],
       };
 
       const result = await client.summarizePR(mockPRData);
 
-      expect(result).toContain("要約エラー");
+      expect(result).toEqual({ ok: false, error: "API Error" });
+    });
+
+    it("should treat an empty response as a failure", async () => {
+      const mockCreate = vi.spyOn(OpenAI.prototype.chat.completions, "create") as any;
+
+      mockCreate.mockResolvedValue({
+        choices: [{ message: { content: "" } }],
+      });
+
+      const mockPRData: PRDetails = {
+        pr: {
+          number: 12345,
+          title: "Test PR",
+          body: null,
+          html_url: "https://github.com/rails/rails/pull/12345",
+          merged_at: "2025-11-24T10:00:00Z",
+          additions: 1,
+          deletions: 1,
+          changed_files: 1,
+          labels: [],
+          head_sha: "abc123",
+          base_ref: "main",
+          user: null,
+        },
+        files: [],
+        linkedIssues: [],
+        comments: [],
+        changelogEntries: [],
+      };
+
+      const result = await client.summarizePR(mockPRData);
+
+      expect(result).toEqual({ ok: false, error: "empty response" });
+      expect(mockCreate).toHaveBeenCalledTimes(3);
+    });
+
+    it("should ask again when the output does not match the schema", async () => {
+      const mockCreate = vi.spyOn(OpenAI.prototype.chat.completions, "create") as any;
+
+      mockCreate
+        .mockResolvedValueOnce({ choices: [{ message: { content: "not json" } }] })
+        .mockResolvedValueOnce({
+          choices: [{ message: { content: JSON.stringify({ ...validSummary, overview: "" }) } }],
+        })
+        .mockResolvedValueOnce({
+          choices: [{ message: { content: JSON.stringify(validSummary) } }],
+        });
+
+      const result = await client.summarizePR({
+        pr: {
+          number: 12345,
+          title: "Test PR",
+          body: null,
+          html_url: "https://github.com/rails/rails/pull/12345",
+          merged_at: "2025-11-24T10:00:00Z",
+          additions: 1,
+          deletions: 1,
+          changed_files: 1,
+          labels: [],
+          head_sha: "abc123",
+          base_ref: "main",
+          user: null,
+        },
+        files: [],
+        linkedIssues: [],
+        comments: [],
+        changelogEntries: [],
+      });
+
+      expect(result).toEqual({ ok: true, summary: validSummary });
+      expect(mockCreate).toHaveBeenCalledTimes(3);
+    });
+
+    it("should return cached summaries without calling the model, and cache new ones", async () => {
+      const mockCreate = vi.spyOn(OpenAI.prototype.chat.completions, "create") as any;
+      mockCreate.mockResolvedValue({
+        choices: [{ message: { content: JSON.stringify(validSummary) } }],
+      });
+      const cache = new SummaryCache("/test/.cache/summaries");
+      const mockGet = vi.spyOn(cache, "get").mockReturnValueOnce(validSummary);
+      const mockSet = vi.spyOn(cache, "set").mockImplementation(() => {});
+      const prData: PRDetails = {
+        pr: {
+          number: 12345,
+          title: "Test PR",
+          body: null,
+          html_url: "https://github.com/rails/rails/pull/12345",
+          merged_at: "2025-11-24T10:00:00Z",
+          additions: 1,
+          deletions: 1,
+          changed_files: 1,
+          labels: [],
+          head_sha: "abc123",
+          base_ref: "main",
+          user: null,
+        },
+        files: [],
+        linkedIssues: [],
+        comments: [],
+        changelogEntries: [],
+      };
+      const cachingClient = new OpenAIClient("test-api-key", { model: "gpt-5-mini", cache });
+
+      expect(await cachingClient.summarizePR(prData)).toEqual({ ok: true, summary: validSummary });
+      expect(mockCreate).not.toHaveBeenCalled();
+      expect(mockGet).toHaveBeenCalledWith({
+        prNumber: 12345,
+        headSha: "abc123",
+        promptVersion: PROMPT_VERSION,
+        model: "gpt-5-mini",
+      });
+
+      mockGet.mockReturnValueOnce(null);
+      expect(await cachingClient.summarizePR(prData)).toEqual({ ok: true, summary: validSummary });
+      expect(mockCreate).toHaveBeenCalledTimes(1);
+      expect(mockSet).toHaveBeenCalledWith(
+        expect.objectContaining({ prNumber: 12345 }),
+        validSummary,
+      );
+    });
+
+    it("should return the summary when caching it fails", async () => {
+      const mockCreate = vi.spyOn(OpenAI.prototype.chat.completions, "create") as any;
+      mockCreate.mockResolvedValue({
+        choices: [{ message: { content: JSON.stringify(validSummary) } }],
+      });
+      const cache = new SummaryCache("/test/.cache/summaries");
+      vi.spyOn(cache, "get").mockReturnValue(null);
+      vi.spyOn(cache, "set").mockImplementation(() => {
+        throw new Error("ENOSPC: no space left on device");
+      });
+      const mockWarn = vi.spyOn(console, "warn").mockImplementation(() => {});
+      const prData: PRDetails = {
+        pr: {
+          number: 12345,
+          title: "Test PR",
+          body: null,
+          html_url: "https://github.com/rails/rails/pull/12345",
+          merged_at: "2025-11-24T10:00:00Z",
+          additions: 1,
+          deletions: 1,
+          changed_files: 1,
+          labels: [],
+          head_sha: "abc123",
+          base_ref: "main",
+          user: null,
+        },
+        files: [],
+        linkedIssues: [],
+        comments: [],
+        changelogEntries: [],
+      };
+      const cachingClient = new OpenAIClient("test-api-key", { cache });
+
+      expect(await cachingClient.summarizePR(prData)).toEqual({ ok: true, summary: validSummary });
+      expect(mockWarn).toHaveBeenCalledWith(
+        "Failed to cache the summary of PR #12345:",
+        expect.any(Error),
+      );
+    });
+
+    it("should record the token usage of every response", async () => {
+      const mockCreate = vi.spyOn(OpenAI.prototype.chat.completions, "create") as any;
+      const usage = {
+        prompt_tokens: 1000,
+        completion_tokens: 200,
+        prompt_tokens_details: { cached_tokens: 400 },
+      };
+
+      mockCreate
+        .mockResolvedValueOnce({
+          model: "gpt-5.1-2025-11-13",
+          usage,
+          choices: [{ message: { content: "not json" } }],
+        })
+        .mockResolvedValueOnce({
+          model: "gpt-5.1-2025-11-13",
+          usage,
+          choices: [{ message: { content: JSON.stringify(validSummary) } }],
+        });
+
+      const usageTracker = new UsageTracker();
+      await new OpenAIClient("test-api-key", { usageTracker }).summarizePR({
+        pr: {
+          number: 12345,
+          title: "Test PR",
+          body: null,
+          html_url: "https://github.com/rails/rails/pull/12345",
+          merged_at: "2025-11-24T10:00:00Z",
+          additions: 1,
+          deletions: 1,
+          changed_files: 1,
+          labels: [],
+          head_sha: "abc123",
+          base_ref: "main",
+          user: null,
+        },
+        files: [],
+        linkedIssues: [],
+        comments: [],
+        changelogEntries: [],
+      });
+
+      expect(usageTracker.getUsage()).toEqual({
+        requests: 2,
+        promptTokens: 2000,
+        cachedTokens: 800,
+        completionTokens: 400,
+      });
+    });
+  });
+
+  describe("summarizeWeek", () => {
+    const prs = [
+      {
+        number: 1,
+        title: "Remove deprecated config",
+        changeType: "removal" as const,
+        breaking: true,
+        overview: "非推奨だった設定を削除",
+      },
+      {
+        number: 2,
+        title: "Add feature",
+        changeType: "feature" as const,
+        breaking: false,
+        overview: "新しいオプションを追加",
+      },
+    ];
+
+    it("should return the overview written from the PR summaries", async () => {
+      const mockCreate = vi.spyOn(OpenAI.prototype.chat.completions, "create") as any;
+      mockCreate.mockResolvedValue({
+        model: "gpt-5.1-2025-11-13",
+        usage: { prompt_tokens: 500, completion_tokens: 100 },
+        choices: [{ message: { content: "- 非推奨の設定が削除されました (#1)\n" } }],
+      });
+      const usageTracker = new UsageTracker();
+
+      const result = await new OpenAIClient("test-api-key", { usageTracker }).summarizeWeek(
+        "2026-W33",
+        prs,
+      );
+
+      expect(result).toEqual({ ok: true, overview: "- 非推奨の設定が削除されました (#1)" });
+      const prompt = mockCreate.mock.calls[0][0].messages[0].content;
+      expect(prompt).toContain("2026-W33");
+      expect(prompt).toContain(
+        "- #1 [削除・破壊的変更] Remove deprecated config\n  非推奨だった設定を削除",
+      );
+      expect(prompt).toContain("- #2 [新機能] Add feature");
+      expect(usageTracker.getUsage().requests).toBe(1);
+    });
+
+    it("should treat an empty response as a failure", async () => {
+      const mockCreate = vi.spyOn(OpenAI.prototype.chat.completions, "create") as any;
+      mockCreate.mockResolvedValue({ choices: [{ message: { content: "" } }] });
+
+      const result = await client.summarizeWeek("2026-W33", prs);
+
+      expect(result).toEqual({ ok: false, error: "empty response" });
     });
   });
 });
@@ -1,18 +1,111 @@
 import OpenAI from "openai";
-import type { PRDetails, PRFile } from "./github-client";
+import { getChangeTypeName } from "./change-types";
+import { formatDiffs } from "./diff";
+import type { ChangelogEntry, LinkedIssue, PRComment, PRDetails, PRFile } from "./github-client";
+import { withRetry } from "./retry";
+import type { Summarizer, SummaryResult, WeeklyOverviewResult, WeeklyPR } from "./summarizer";
+import type { SummaryCache, SummaryCacheKey } from "./summary-cache";
+import { parseStructuredSummary, SUMMARY_JSON_SCHEMA } from "./summary-schema";
+import type { UsageTracker } from "./usage";
 
-export class OpenAIClient {
+export interface OpenAIClientOptions {
+  model?: string;
+  // Set to use an OpenAI-compatible server instead of the OpenAI API
+  baseURL?: string;
+  // Records the token usage of every response
+  usageTracker?: UsageTracker;
+  // Consulted before calling the model
+  cache?: SummaryCache;
+}
+
+const DEFAULT_MODEL = "gpt-5.1";
+// Bump when the prompt or the output schema changes, so cached summaries are regenerated
+export const PROMPT_VERSION = 1;
+// Requests per PR when the model returns output that does not match the schema
+const MAX_OUTPUT_ATTEMPTS = 3;
+
+const MAX_COMMENTS = 10;
+// Maximum characters of each issue body or comment in the prompt
+const MAX_CONTEXT_LENGTH = 1000;
+
+function truncateText(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength)}…` : text;
+}
+
+function formatLinkedIssues(issues: LinkedIssue[]): string {
+  if (issues.length === 0) return "なし";
+
+  return issues
+    .map(
+      (issue) =>
+        `- #${issue.number} ${issue.title}\n${truncateText(issue.body ?? "説明なし", MAX_CONTEXT_LENGTH)}`,
+    )
+    .join("\n\n");
+}
+
+function formatComments(comments: PRComment[]): string {
+  if (comments.length === 0) return "なし";
+
+  const formatted = comments
+    .slice(0, MAX_COMMENTS)
+    .map(
+      (comment) =>
+        `- @${comment.author ?? "unknown"}: ${truncateText(comment.body, MAX_CONTEXT_LENGTH)}`,
+    );
+  if (comments.length > MAX_COMMENTS) {
+    formatted.push(`... 他 ${comments.length - MAX_COMMENTS} 件`);
+  }
+  return formatted.join("\n");
+}
+
+function formatWeeklyPRs(prs: WeeklyPR[]): string {
+  return prs
+    .map((pr) => {
+      const labels = [getChangeTypeName(pr.changeType), ...(pr.breaking ? ["破壊的変更"] : [])];
+      return `- #${pr.number} [${labels.join("・")}] ${pr.title}\n  ${truncateText(pr.overview, MAX_CONTEXT_LENGTH)}`;
+    })
+    .join("\n");
+}
+
+function formatChangelogEntries(entries: ChangelogEntry[]): string {
+  if (entries.length === 0) return "なし";
+
+  return entries.map((entry) => `${entry.filename}:\n${entry.text}`).join("\n\n");
+}
+
+export class OpenAIClient implements Summarizer {
   private client: OpenAI;
+  private model: string;
+  private isCompatibleServer: boolean;
+  private usageTracker?: UsageTracker;
+  private cache?: SummaryCache;
 
-  constructor(apiKey: string) {
-    this.client = new OpenAI({ apiKey });
+  constructor(apiKey: string, options: OpenAIClientOptions = {}) {
+    // Retries are handled by withRetry, shared with the GitHub client
+    this.client = new OpenAI({ apiKey, baseURL: options.baseURL, maxRetries: 0 });
+    this.model = options.model ?? DEFAULT_MODEL;
+    this.isCompatibleServer = options.baseURL !== undefined;
+    this.usageTracker = options.usageTracker;
+    this.cache = options.cache;
   }
 
   /**
-   * Summarize PR using OpenAI
+   * Summarize PR using OpenAI (or an OpenAI-compatible server)
    */
-  async summarizePR(prData: PRDetails): Promise<string> {
-    const { pr, files } = prData;
+  async summarizePR(prData: PRDetails): Promise<SummaryResult> {
+    const { pr, files, linkedIssues, comments, changelogEntries } = prData;
+
+    const cacheKey: SummaryCacheKey = {
+      prNumber: pr.number,
+      headSha: pr.head_sha,
+      promptVersion: PROMPT_VERSION,
+      model: this.model,
+    };
+    const cached = this.cache?.get(cacheKey);
+    if (cached) {
+      console.log(`Using the cached summary of PR #${pr.number}`);
+      return { ok: true, summary: cached };
+    }
 
     // Prepare file changes summary
     const fileChanges = files
@@ -30,42 +123,132 @@ PR情報:
 - 説明:
 ${pr.body ?? "説明なし"}
 
+関連Issue:
+${formatLinkedIssues(linkedIssues)}
+
+レビューでの議論:
+${formatComments(comments)}
+
+CHANGELOGへの追記:
+${formatChangelogEntries(changelogEntries)}
+
 変更されたファイル (最大20件):
 ${fileChanges}
-${files.length > 20 ? `\n... 他 ${files.length - 20} ファイル` : ""}
+${pr.changed_files > 20 ? `\n... 他 ${pr.changed_files - 20} ファイル` : ""}
 
 統計:
-- 変更ファイル数: ${files.length}
+- 変更ファイル数: ${pr.changed_files}
 - 追加行数: ${pr.additions}
 - 削除行数: ${pr.deletions}
 
-以下の形式で出力してください:
-1. 概要 (1-2文で)
-2. 変更内容の詳細(あればサンプルコードも含めて)
-3. 影響範囲・注意点
-4. 参考情報 (あれば)
+差分 (ソースコードを優先して抜粋):
+${formatDiffs(files) || "差分なし"}
+
+以下の項目を持つJSONで出力してください:
+- overview: 概要 (1-2文で)
+- details: 変更内容の詳細 (Markdown、見出しは使わない)
+- impact: 影響範囲・注意点 (Markdown、見出しは使わない)
+- references: 参考情報 (関連Issue・ドキュメントのURLなど、なければ空配列)
+- codeSamples: 変更を示すサンプルコード (language・code・description、なければ空配列)
+- changeType: 変更の種類 (feature・bugfix・deprecation・removal・performance・docs・internal のいずれか)
+- breaking: 既存のアプリケーションがアップグレード時に対応を迫られる変更 (挙動や既に非推奨だった機能の削除、デフォルト値の変更など) なら true
 
-技術的に正確で、開発者にとって有益な情報を含めてください。`;
+技術的に正確で、開発者にとって有益な情報を含めてください。
+変更の背景や動機は、関連Issue・レビューでの議論・CHANGELOGも踏まえて説明してください。
+サンプルコードは上記の差分に基づいて書き、差分から読み取れないコードを創作しないでください。`;
 
     try {
-      const completion = await this.client.chat.completions.create({
-        model: "gpt-5.1",
-        prompt_cache_retention: "24h",
-        messages: [
-          {
-            role: "user",
-            content: prompt,
-          },
-        ],
-      });
-
-      return completion.choices[0]?.message.content ?? "要約を生成できませんでした";
+      for (let attempt = 1; ; attempt++) {
+        const completion = await withRetry(
+          () =>
+            this.client.chat.completions.create({
+              model: this.model,
+              // Prompt caching options are specific to the OpenAI API
+              ...(this.isCompatibleServer ? {} : { prompt_cache_retention: "24h" as const }),
+              response_format: {
+                type: "json_schema",
+                json_schema: { name: "pr_summary", strict: true, schema: SUMMARY_JSON_SCHEMA },
+              },
+              messages: [
+                {
+                  role: "user",
+                  content: prompt,
+                },
+              ],
+            }),
+          { label: `Summarize PR #${pr.number}` },
+        );
+
+        // Invalid outputs are billed too
+        this.usageTracker?.record(completion.model ?? this.model, completion.usage);
+
+        const message = completion.choices[0]?.message;
+        const content = message?.content?.trim();
+        const result = message?.refusal
+          ? { ok: false as const, error: `refused: ${message.refusal}` }
+          : content
+            ? parseStructuredSummary(content)
+            : { ok: false as const, error: "empty response" };
+        if (result.ok) {
+          // The summary is already paid for: a failed cache write must not discard it
+          try {
+            this.cache?.set(cacheKey, result.summary);
+          } catch (error) {
+            console.warn(`Failed to cache the summary of PR #${pr.number}:`, error);
+          }
+          return result;
+        }
+
+        // Invalid output is usually a one-off: ask again before giving up
+        if (attempt >= MAX_OUTPUT_ATTEMPTS) {
+          console.error(`Error summarizing PR #${pr.number}: ${result.error}`);
+          return result;
+        }
+        console.warn(
+          `Invalid summary for PR #${pr.number} (${result.error}), retrying (attempt ${attempt + 1}/${MAX_OUTPUT_ATTEMPTS})`,
+        );
+      }
     } catch (error) {
-      console.error(
-        `Error summarizing PR #${pr.number}:`,
-        error instanceof Error ? error.message : String(error),
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Error summarizing PR #${pr.number}:`, message);
+      return { ok: false, error: message };
+    }
+  }
+
+  /**
+   * Write the overview of a week's notable changes from the summaries of its PRs
+   */
+  async summarizeWeek(weekKey: string, prs: WeeklyPR[]): Promise<WeeklyOverviewResult> {
+    const prompt = `以下は ${weekKey} の週に Ruby on Rails (rails/rails) にマージされたPull Requestと、その要約の一覧です。
+
+${formatWeeklyPRs(prs)}
+
+この週の注目すべき変更を、Railsを使う開発者向けに日本語の箇条書き (Markdown) 3〜5項目でまとめてください。
+- 各項目は1〜2文で、関係するPRの番号を (#12345) の形式で含めてください
+- 破壊的変更や非推奨化があれば必ず含めてください
+- 見出し・前置き・まとめの文は書かないでください`;
+
+    try {
+      const completion = await withRetry(
+        () =>
+          this.client.chat.completions.create({
+            model: this.model,
+            messages: [{ role: "user", content: prompt }],
+          }),
+        { label: `Summarize week ${weekKey}` },
       );
-      return `要約エラー: ${error instanceof Error ? error.message : String(error)}`;
+      this.usageTracker?.record(completion.model ?? this.model, completion.usage);
+
+      const overview = completion.choices[0]?.message?.content?.trim();
+      if (!overview) {
+        console.error(`Error summarizing week ${weekKey}: empty response`);
+        return { ok: false, error: "empty response" };
+      }
+      return { ok: true, overview };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Error summarizing week ${weekKey}:`, message);
+      return { ok: false, error: message };
     }
   }
 }
@@ -0,0 +1,228 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from "node:fs";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { PRDetails } from "./github-client";
+import { createStoredPR, PRStore } from "./pr-store";
+import { createRecord } from "./test-fixtures";
+
+vi.mock("node:fs");
+
+describe("PRStore", () => {
+  let store: PRStore;
+  const dataDir = "/test/docs/data/prs";
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    store = new PRStore(dataDir);
+  });
+
+  describe("load", () => {
+    it("should start empty when data directory does not exist", () => {
+      vi.mocked(existsSync).mockReturnValue(false);
+
+      store.load();
+
+      expect(store.all()).toEqual([]);
+    });
+
+    it("should load records from monthly NDJSON files", () => {
+      vi.mocked(existsSync).mockReturnValue(true);
+      vi.mocked(readdirSync).mockReturnValue(["2026-07.ndjson", "2026-08.ndjson", "README"] as any);
+      vi.mocked(readFileSync)
+        .mockReturnValueOnce(
+          `${JSON.stringify(createRecord({ number: 1, mergedAt: "2026-07-10T10:00:00Z" }))}\n`,
+        )
+        .mockReturnValueOnce(
+          `${JSON.stringify(createRecord({ number: 2 }))}\n\n${JSON.stringify(createRecord({ number: 3 }))}\n`,
+        );
+
+      store.load();
+
+      expect(readFileSync).toHaveBeenCalledTimes(2);
+      expect(store.getPRNumbers()).toEqual(new Set([1, 2, 3]));
+      expect(store.getDirtyMonths()).toEqual([]);
+    });
+
+    it("should classify records written before components and change types were stored", () => {
+      const {
+        labels: _labels,
+        components: _components,
+        changeType: _changeType,
+        breaking: _breaking,
+        ...oldRecord
+      } = createRecord({
+        title: "Fix a bug",
+        files: [{ filename: "activerecord/lib/base.rb", additions: 1, deletions: 0 }],
+      });
+      vi.mocked(existsSync).mockReturnValue(true);
+      vi.mocked(readdirSync).mockReturnValue(["2026-08.ndjson"] as any);
+      vi.mocked(readFileSync).mockReturnValue(`${JSON.stringify(oldRecord)}\n`);
+
+      store.load();
+
+      expect(store.get(12345)).toMatchObject({
+        labels: [],
+        components: ["activerecord"],
+        changeType: "bugfix",
+        breaking: false,
+      });
+    });
+
+    it("should leave the branch unknown for records written before it was stored", () => {
+      const { baseBranch: _baseBranch, backportOf: _backportOf, ...oldRecord } = createRecord();
+      vi.mocked(existsSync).mockReturnValue(true);
+      vi.mocked(readdirSync).mockReturnValue(["2026-08.ndjson"] as any);
+      vi.mocked(readFileSync).mockReturnValue(`${JSON.stringify(oldRecord)}\n`);
+
+      store.load();
+
+      expect(store.get(12345)).toMatchObject({ baseBranch: null, backportOf: null });
+    });
+  });
+
+  describe("upsert", () => {
+    it("should add records and mark their month as changed", () => {
+      store.upsert(createRecord({ number: 1, mergedAt: "2026-08-10T10:00:00Z" }));
+
+      expect(store.has(1)).toBe(true);
+      expect(store.getDirtyMonths()).toEqual(["2026-08"]);
+    });
+
+    it("should replace an existing record with the same number", () => {
+      store.upsert(createRecord({ number: 1, summary: "Old" }));
+      store.upsert(createRecord({ number: 1, summary: "New" }));
+
+      expect(store.all()).toHaveLength(1);
+      expect(store.get(1)?.summary).toBe("New");
+    });
+  });
+
+  describe("queries", () => {
+    beforeEach(() => {
+      store.upsert(createRecord({ number: 1, mergedAt: "2026-07-31T10:00:00Z" }));
+      store.upsert(createRecord({ number: 2, mergedAt: "2026-08-02T10:00:00Z" }));
+      store.upsert(createRecord({ number: 3, mergedAt: "2026-08-01T10:00:00Z" }));
+    });
+
+    it("should return all records newest first", () => {
+      expect(store.all().map((record) => record.number)).toEqual([2, 3, 1]);
+    });
+
+    it("should return records of a month", () => {
+      expect(store.getMonth("2026-08").map((record) => record.number)).toEqual([2, 3]);
+    });
+
+    it("should return records of a component", () => {
+      store.upsert(createRecord({ number: 4, components: ["activerecord"] }));
+
+      expect(store.getComponent("activerecord").map((record) => record.number)).toEqual([4]);
+    });
+
+    it("should list months most recent first", () => {
+      expect(store.listMonths()).toEqual(["2026-08", "2026-07"]);
+    });
+
+    it("should return records of an ISO week across months", () => {
+      store.upsert(createRecord({ number: 4, mergedAt: "2026-08-03T10:00:00Z" }));
+
+      expect(store.getWeek("2026-W31").map((record) => record.number)).toEqual([2, 3, 1]);
+      expect(store.listWeeks()).toEqual(["2026-W32", "2026-W31"]);
+    });
+  });
+
+  describe("save", () => {
+    it("should do nothing when nothing changed", () => {
+      store.save();
+
+      expect(writeFileSync).not.toHaveBeenCalled();
+    });
+
+    it("should write one NDJSON line per record for each changed month", () => {
+      vi.mocked(existsSync).mockReturnValue(false);
+      store.upsert(createRecord({ number: 1, mergedAt: "2026-08-01T10:00:00Z" }));
+      store.upsert(createRecord({ number: 2, mergedAt: "2026-08-02T10:00:00Z" }));
+
+      store.save();
+
+      expect(mkdirSync).toHaveBeenCalledWith(dataDir, { recursive: true });
+      const [filepath, content] = vi.mocked(writeFileSync).mock.calls[0];
+      expect(filepath).toBe(`${dataDir}/2026-08.ndjson`);
+      const lines = (content as string).trimEnd().split("\n");
+      expect(lines.map((line) => JSON.parse(line).number)).toEqual([2, 1]);
+      expect(store.getDirtyMonths()).toEqual([]);
+    });
+  });
+});
+
+describe("createStoredPR", () => {
+  it("should build a record from PR details and summary", () => {
+    const prData: PRDetails = {
+      pr: {
+        number: 12345,
+        title: "Fix authentication bug",
+        body: "Body",
+        html_url: "https://github.com/rails/rails/pull/12345",
+        merged_at: "2025-11-24T10:00:00Z",
+        additions: 10,
+        deletions: 5,
+        changed_files: 1,
+        labels: [],
+        head_sha: "abc123",
+        base_ref: "main",
+        user: {
+          login: "testuser",
+          html_url: "https://github.com/testuser",
+        },
+      },
+      files: [{ filename: "auth.rb", additions: 10, deletions: 5 }],
+      linkedIssues: [],
+      comments: [],
+      changelogEntries: [],
+    };
+
+    const record = createStoredPR(prData, "Summary");
+
+    expect(record).toMatchObject({
+      number: 12345,
+      title: "Fix authentication bug",
+      url: "https://github.com/rails/rails/pull/12345",
+      mergedAt: "2025-11-24T10:00:00Z",
+      author: "testuser",
+      authorUrl: "https://github.com/testuser",
+      changedFiles: 1,
+      files: [{ filename: "auth.rb", additions: 10, deletions: 5 }],
+      changeType: "bugfix",
+      breaking: false,
+      summary: "Summary",
+      baseBranch: "main",
+      backportOf: null,
+    });
+  });
+
+  it("should record the branch and the original PR of a backport", () => {
+    const prData: PRDetails = {
+      pr: {
+        number: 12346,
+        title: "[8-0-stable] Fix authentication bug",
+        body: "Backport of #12345",
+        html_url: "https://github.com/rails/rails/pull/12346",
+        merged_at: "2025-11-25T10:00:00Z",
+        additions: 10,
+        deletions: 5,
+        changed_files: 1,
+        labels: [],
+        head_sha: "def456",
+        base_ref: "8-0-stable",
+        user: null,
+      },
+      files: [],
+      linkedIssues: [],
+      comments: [],
+      changelogEntries: [],
+    };
+
+    expect(createStoredPR(prData, "Summary")).toMatchObject({
+      baseBranch: "8-0-stable",
+      backportOf: 12345,
+    });
+  });
+});
@@ -0,0 +1,258 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { type ChangeType, classifyChange } from "./change-types";
+import { classifyComponents, type RailsComponent } from "./components";
+import { getMonthKey, getWeekKey } from "./formatter";
+import type { PRDetails } from "./github-client";
+import { detectBackportOf } from "./releases";
+import type { Summary } from "./summary-schema";
+import type { TrivialReason } from "./triage";
+
+export interface StoredPRFile {
+  filename: string;
+  additions: number;
+  deletions: number;
+}
+
+export interface StoredPR {
+  number: number;
+  title: string;
+  url: string;
+  mergedAt: string;
+  author: string | null;
+  authorUrl: string | null;
+  body: string | null;
+  additions: number;
+  deletions: number;
+  changedFiles: number;
+  files: StoredPRFile[];
+  labels: string[];
+  // Branch the PR was merged into (e.g., main, 8-0-stable); null until fetched for older records
+  baseBranch: string | null;
+  // PR a backport to a stable branch was made from
+  backportOf: number | null;
+  // Rails frameworks the PR touches, derived from files and labels
+  components: RailsComponent[];
+  // Kind of change, from the CHANGELOG, the diff and the summary
+  changeType: ChangeType;
+  breaking: boolean;
+  summary: Summary;
+  // Set when triage found the PR trivial and gave it a template summary
+  trivial: TrivialReason | null;
+  collectedAt: string;
+  // Monthly markdown file the record was recovered from by the migration, if any
+  migratedFrom?: string;
+}
+
+// Summaries stored before failures were kept out of the store start with this
+export const LEGACY_SUMMARY_ERROR_PREFIX = "要約エラー";
+
+/**
+ * Build a store record from PR details and its summary
+ */
+export function createStoredPR(
+  prData: PRDetails,
+  summary: Summary,
+  trivial: TrivialReason | null = null,
+): StoredPR {
+  const { pr, files, changelogEntries } = prData;
+  const storedFiles = files.map((f) => ({
+    filename: f.filename ?? "unknown",
+    additions: f.additions,
+    deletions: f.deletions,
+  }));
+
+  return {
+    number: pr.number,
+    title: pr.title,
+    url: pr.html_url,
+    mergedAt: pr.merged_at ?? new Date().toISOString(),
+    author: pr.user?.login ?? null,
+    authorUrl: pr.user?.html_url ?? null,
+    body: pr.body,
+    additions: pr.additions,
+    deletions: pr.deletions,
+    changedFiles: pr.changed_files,
+    files: storedFiles,
+    labels: pr.labels,
+    baseBranch: pr.base_ref,
+    backportOf: detectBackportOf({ ...pr, baseBranch: pr.base_ref }),
+    components: classifyComponents(storedFiles, pr.labels),
+    ...classifyChange(files, changelogEntries, pr.title, summary),
+    summary,
+    trivial,
+    collectedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Fill in fields added after a record was written. Stored files have no patches,
+ * so older records are classified by their files, title and summary only.
+ */
+function upgradeRecord(record: StoredPR): StoredPR {
+  const labels = record.labels ?? [];
+  const change =
+    record.changeType === undefined
+      ? classifyChange(record.files, [], record.title, record.summary)
+      : { changeType: record.changeType, breaking: record.breaking };
+  return {
+    ...record,
+    labels,
+    baseBranch: record.baseBranch ?? null,
+    backportOf: record.backportOf ?? null,
+    components: record.components ?? classifyComponents(record.files, labels),
+    ...change,
+    trivial: record.trivial ?? null,
+  };
+}
+
+/**
+ * Sort records by merge date (newest first), then by PR number
+ */
+function compareNewestFirst(a: StoredPR, b: StoredPR): number {
+  return Date.parse(b.mergedAt) - Date.parse(a.mergedAt) || b.number - a.number;
+}
+
+/**
+ * Structured store of collected PRs: the source of truth for the generated pages.
+ * Records are kept as NDJSON, one file per merge month (e.g., docs/data/prs/2026-08.ndjson).
+ */
+export class PRStore {
+  private dataDir: string;
+  private records = new Map<number, StoredPR>();
+  private dirtyMonths = new Set<string>();
+
+  constructor(dataDir: string) {
+    this.dataDir = dataDir;
+  }
+
+  /**
+   * Load all records from the data directory
+   */
+  load(): void {
+    this.records.clear();
+    this.dirtyMonths.clear();
+
+    if (!existsSync(this.dataDir)) {
+      console.log(`PR store not found, starting empty: ${this.dataDir}`);
+      return;
+    }
+
+    const files = readdirSync(this.dataDir).filter((f) => f.endsWith(".ndjson"));
+    for (const filename of files) {
+      const lines = readFileSync(join(this.dataDir, filename), "utf-8").split("\n");
+      for (const line of lines) {
+        if (line.trim() === "") continue;
+        const record = upgradeRecord(JSON.parse(line) as StoredPR);
+        this.records.set(record.number, record);
+      }
+    }
+
+    console.log(`Loaded ${this.records.size} PRs from the PR store`);
+  }
+
+  has(prNumber: number): boolean {
+    return this.records.has(prNumber);
+  }
+
+  get(prNumber: number): StoredPR | undefined {
+    return this.records.get(prNumber);
+  }
+
+  /**
+   * Get PR numbers of all records
+   */
+  getPRNumbers(): Set<number> {
+    return new Set(this.records.keys());
+  }
+
+  /**
+   * Get all records, newest first
+   */
+  all(): StoredPR[] {
+    return Array.from(this.records.values()).sort(compareNewestFirst);
+  }
+
+  /**
+   * Get records merged in the given month (YYYY-MM), newest first
+   */
+  getMonth(monthKey: string): StoredPR[] {
+    return this.all().filter((record) => getMonthKey(new Date(record.mergedAt)) === monthKey);
+  }
+
+  /**
+   * Get records merged in the given ISO week (YYYY-Www), newest first
+   */
+  getWeek(weekKey: string): StoredPR[] {
+    return this.all().filter((record) => getWeekKey(new Date(record.mergedAt)) === weekKey);
+  }
+
+  /**
+   * Get records that touch the given Rails component, newest first
+   */
+  getComponent(component: RailsComponent): StoredPR[] {
+    return this.all().filter((record) => record.components.includes(component));
+  }
+
+  /**
+   * List months (YYYY-MM) that have records, most recent first
+   */
+  listMonths(): string[] {
+    const months = new Set(
+      Array.from(this.records.values(), (record) => getMonthKey(new Date(record.mergedAt))),
+    );
+    return Array.from(months).sort().reverse();
+  }
+
+  /**
+   * List ISO weeks (YYYY-Www) that have records, most recent first
+   */
+  listWeeks(): string[] {
+    const weeks = new Set(
+      Array.from(this.records.values(), (record) => getWeekKey(new Date(record.mergedAt))),
+    );
+    return Array.from(weeks).sort().reverse();
+  }
+
+  /**
+   * Months changed since the last load or save
+   */
+  getDirtyMonths(): string[] {
+    return Array.from(this.dirtyMonths).sort();
+  }
+
+  /**
+   * Insert or replace a record
+   */
+  upsert(record: StoredPR): void {
+    const existing = this.records.get(record.number);
+    if (existing) {
+      this.dirtyMonths.add(getMonthKey(new Date(existing.mergedAt)));
+    }
+
+    this.records.set(record.number, record);
+    this.dirtyMonths.add(getMonthKey(new Date(record.mergedAt)));
+  }
+
+  /**
+   * Write the monthly NDJSON files that changed
+   */
+  save(): void {
+    if (this.dirtyMonths.size === 0) {
+      return;
+    }
+
+    if (!existsSync(this.dataDir)) {
+      mkdirSync(this.dataDir, { recursive: true });
+    }
+
+    for (const monthKey of this.dirtyMonths) {
+      const records = this.getMonth(monthKey);
+      const content = records.map((record) => `${JSON.stringify(record)}\n`).join("");
+      writeFileSync(join(this.dataDir, `${monthKey}.ndjson`), content, "utf-8");
+      console.log(`Saved ${records.length} PRs to the PR store: ${monthKey}.ndjson`);
+    }
+
+    this.dirtyMonths.clear();
+  }
+}
@@ -0,0 +1,151 @@
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  detectBackportOf,
+  findReleaseVersion,
+  getReleaseVersions,
+  groupByRelease,
+  readReleases,
+  saveReleases,
+} from "./releases";
+import { createRecord } from "./test-fixtures";
+
+vi.mock("node:fs");
+
+const releases = [
+  { tagName: "v8.1.1", publishedAt: "2025-10-28T20:00:00Z" },
+  { tagName: "v8.0.4", publishedAt: "2025-10-28T19:00:00Z" },
+  { tagName: "v8.1.0", publishedAt: "2025-10-22T20:00:00Z" },
+  { tagName: "v8.1.0.rc1", publishedAt: "2025-10-15T20:00:00Z" },
+  { tagName: "v8.0.2.1", publishedAt: "2025-08-13T20:00:00Z" },
+  { tagName: "v8.1.0.beta1", publishedAt: "2025-09-04T20:00:00Z" },
+  { tagName: "v8.0.3", publishedAt: "2025-09-22T20:00:00Z" },
+];
+
+describe("releases", () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  describe("detectBackportOf", () => {
+    const backport = { number: 2, title: "[8-0-stable] Fix bug", baseBranch: "8-0-stable" };
+
+    it("should find the original PR in the description of a stable branch PR", () => {
+      expect(detectBackportOf({ ...backport, body: "Backport of #1" })).toBe(1);
+      expect(detectBackportOf({ ...backport, body: "Backports rails/rails#1" })).toBe(1);
+      expect(
+        detectBackportOf({
+          ...backport,
+          body: "Cherry-pick of https://github.com/rails/rails/pull/1",
+        }),
+      ).toBe(1);
+    });
+
+    it("should find the original PR in the title", () => {
+      expect(
+        detectBackportOf({ ...backport, title: "Backport #1 to 8-0-stable", body: null }),
+      ).toBe(1);
+    });
+
+    it("should not detect backports on main or without a reference", () => {
+      expect(detectBackportOf({ ...backport, baseBranch: "main", body: "Backport of #1" })).toBe(
+        null,
+      );
+      expect(detectBackportOf({ ...backport, baseBranch: null, body: "Backport of #1" })).toBe(
+        null,
+      );
+      expect(detectBackportOf({ ...backport, body: "Fixes #1" })).toBe(null);
+    });
+  });
+
+  describe("getReleaseVersions", () => {
+    it("should group prereleases with their version and leave out security releases", () => {
+      expect(getReleaseVersions(releases)).toEqual([
+        expect.objectContaining({ version: "8.0.3", branch: "8-0-stable" }),
+        expect.objectContaining({ version: "8.0.4", branch: "8-0-stable" }),
+        {
+          version: "8.1.0",
+          major: 8,
+          minor: 1,
+          patch: 0,
+          branch: "8-1-stable",
+          firstPublishedAt: "2025-09-04T20:00:00Z",
+          tagName: "v8.1.0",
+          releasedAt: "2025-10-22T20:00:00Z",
+        },
+        expect.objectContaining({ version: "8.1.1", branch: "8-1-stable" }),
+      ]);
+    });
+
+    it("should leave the release date empty while only prereleases are out", () => {
+      expect(
+        getReleaseVersions([{ tagName: "v8.2.0.beta1", publishedAt: "2026-03-01T00:00:00Z" }]),
+      ).toEqual([expect.objectContaining({ tagName: "v8.2.0.beta1", releasedAt: null })]);
+    });
+  });
+
+  describe("findReleaseVersion", () => {
+    const versions = getReleaseVersions(releases);
+
+    it("should find the first X.Y.0 branched off main after a merge into main", () => {
+      expect(
+        findReleaseVersion(createRecord({ mergedAt: "2025-09-01T00:00:00Z" }), versions)?.version,
+      ).toBe("8.1.0");
+      expect(
+        findReleaseVersion(createRecord({ mergedAt: "2025-09-10T00:00:00Z" }), versions),
+      ).toBeNull();
+    });
+
+    it("should find the next release of the branch after a merge into a stable branch", () => {
+      const record = (mergedAt: string) => createRecord({ baseBranch: "8-1-stable", mergedAt });
+
+      expect(findReleaseVersion(record("2025-09-10T00:00:00Z"), versions)?.version).toBe("8.1.0");
+      expect(findReleaseVersion(record("2025-10-23T00:00:00Z"), versions)?.version).toBe("8.1.1");
+      expect(findReleaseVersion(record("2025-10-29T00:00:00Z"), versions)).toBeNull();
+    });
+  });
+
+  describe("groupByRelease", () => {
+    it("should put unreleased changes first, then versions newest first", () => {
+      const groups = groupByRelease(
+        [
+          createRecord({ number: 5, mergedAt: "2025-11-01T00:00:00Z" }),
+          createRecord({ number: 4, mergedAt: "2025-11-01T00:00:00Z", baseBranch: "8-0-stable" }),
+          createRecord({ number: 3, mergedAt: "2025-10-25T00:00:00Z", baseBranch: "8-1-stable" }),
+          createRecord({ number: 2, mergedAt: "2025-09-01T00:00:00Z" }),
+          createRecord({ number: 1, mergedAt: "2025-09-01T00:00:00Z", baseBranch: null }),
+          createRecord({ number: 0, mergedAt: "2025-09-01T00:00:00Z", baseBranch: "feature" }),
+        ],
+        releases,
+      );
+
+      expect(
+        groups.map(({ slug, since, records }) => [slug, since, records.map((r) => r.number)]),
+      ).toEqual([
+        ["main", "8.1.0", [5]],
+        ["8-0-stable", "8.0.4", [4]],
+        ["v8-1-1", null, [3]],
+        ["v8-1-0", null, [2]],
+      ]);
+    });
+  });
+
+  describe("readReleases", () => {
+    it("should read the saved releases", () => {
+      vi.mocked(existsSync).mockReturnValue(true);
+      saveReleases("/test/docs/data/releases.json", releases);
+      vi.mocked(readFileSync).mockReturnValue(vi.mocked(writeFileSync).mock.calls[0][1] as string);
+
+      expect(readReleases("/test/docs/data/releases.json")).toEqual(releases);
+    });
+
+    it("should return no releases when the file is missing or unreadable", () => {
+      vi.mocked(existsSync).mockReturnValue(false);
+      expect(readReleases("/test/docs/data/releases.json")).toEqual([]);
+
+      vi.mocked(existsSync).mockReturnValue(true);
+      vi.mocked(readFileSync).mockReturnValue("not json");
+      expect(readReleases("/test/docs/data/releases.json")).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,222 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname } from "node:path";
+import type { Release } from "./github-client";
+import type { StoredPR } from "./pr-store";
+
+// Branch new features land on; each minor version branches off it as X-Y-stable
+export const MAIN_BRANCH = "main";
+
+// e.g., 8-0-stable
+const STABLE_BRANCH_PATTERN = /^(\d+)-(\d+)-stable$/;
+// e.g., v8.1.0, v8.1.0.beta1, v8.1.0.rc1 and security releases like v8.0.2.1
+const RELEASE_TAG_PATTERN = /^v(\d+)\.(\d+)\.(\d+)(\.\d+)?(\.(?:alpha|beta|rc)\d+)?$/;
+// "Backport of #123", "Backports rails/rails#123", "Cherry-pick of https://github.com/rails/rails/pull/123"
+const BACKPORT_PATTERN =
+  /\b(?:backport(?:s|ed)?|cherry[- ]pick(?:s|ed)?)\b(?:\s+(?:of|from))?:?\s+(?:(?:[\w.-]+\/[\w.-]+)?#|https:\/\/github\.com\/[\w.-]+\/[\w.-]+\/pull\/)(\d+)\b/i;
+
+export interface ReleaseVersion {
+  // e.g., 8.1.1 (prereleases count as the version they lead to)
+  version: string;
+  major: number;
+  minor: number;
+  patch: number;
+  // Stable branch the version is released from, e.g., 8-1-stable
+  branch: string;
+  // First tag of the version; for X.Y.0 (usually a beta), the point it branched off main
+  firstPublishedAt: string;
+  // Latest tag of the version (a prerelease until the final release is out)
+  tagName: string;
+  // Publication of the final release; null while only prereleases are out
+  releasedAt: string | null;
+}
+
+export interface ReleaseGroup {
+  // Page name: v8-1-1 for a version, the branch (main, 8-1-stable) for unreleased changes
+  slug: string;
+  branch: string;
+  // Version the PRs shipped in; null for changes not released yet
+  version: ReleaseVersion | null;
+  // For unreleased changes: the latest version of the branch they come after, if any
+  since: string | null;
+  records: StoredPR[];
+}
+
+/**
+ * Get the stable branch of a minor version, e.g., 8.1 → 8-1-stable
+ */
+export function getStableBranch(major: number, minor: number): string {
+  return `${major}-${minor}-stable`;
+}
+
+export function isStableBranch(branch: string): boolean {
+  return STABLE_BRANCH_PATTERN.test(branch);
+}
+
+/**
+ * Find the PR a backport to a stable branch was made from, in its title or description
+ * (e.g., "Backport of #123"). PRs merged into other branches are never backports.
+ */
+export function detectBackportOf(pr: {
+  number: number;
+  title: string;
+  body: string | null;
+  baseBranch: string | null;
+}): number | null {
+  if (!pr.baseBranch || !isStableBranch(pr.baseBranch)) return null;
+
+  for (const text of [pr.title, pr.body ?? ""]) {
+    const match = text.match(BACKPORT_PATTERN);
+    const number = match ? Number.parseInt(match[1], 10) : null;
+    if (number !== null && number !== pr.number) return number;
+  }
+  return null;
+}
+
+function compareVersions(a: ReleaseVersion, b: ReleaseVersion): number {
+  return a.major - b.major || a.minor - b.minor || a.patch - b.patch;
+}
+
+/**
+ * Group release tags by version, oldest version first. Security releases (X.Y.Z.W)
+ * only contain fixes committed without PRs, so they are left out.
+ */
+export function getReleaseVersions(releases: Release[]): ReleaseVersion[] {
+  const versions = new Map<string, ReleaseVersion>();
+
+  const sorted = [...releases].sort(
+    (a, b) => Date.parse(a.publishedAt) - Date.parse(b.publishedAt),
+  );
+  for (const { tagName, publishedAt } of sorted) {
+    const match = tagName.match(RELEASE_TAG_PATTERN);
+    if (!match || match[4]) continue;
+
+    const [major, minor, patch] = match.slice(1, 4).map((part) => Number.parseInt(part, 10));
+    const version = `${major}.${minor}.${patch}`;
+    const existing = versions.get(version);
+    versions.set(version, {
+      version,
+      major,
+      minor,
+      patch,
+      branch: getStableBranch(major, minor),
+      firstPublishedAt: existing?.firstPublishedAt ?? publishedAt,
+      tagName,
+      releasedAt: match[5] ? (existing?.releasedAt ?? null) : publishedAt,
+    });
+  }
+
+  return Array.from(versions.values()).sort(compareVersions);
+}
+
+/**
+ * Find the version a PR shipped in, from its branch and merge time:
+ * - on a stable branch, the first version of the branch released after the merge
+ *   (or the version whose prereleases are out but not its final release yet)
+ * - on main, the first X.Y.0 that branched off main after the merge
+ * Returns null for PRs not released yet.
+ */
+export function findReleaseVersion(
+  record: StoredPR,
+  versions: ReleaseVersion[],
+): ReleaseVersion | null {
+  const mergedAt = Date.parse(record.mergedAt);
+
+  if (record.baseBranch === MAIN_BRANCH) {
+    return (
+      versions
+        .filter((v) => v.patch === 0 && Date.parse(v.firstPublishedAt) > mergedAt)
+        .sort((a, b) => Date.parse(a.firstPublishedAt) - Date.parse(b.firstPublishedAt))[0] ?? null
+    );
+  }
+
+  return (
+    versions.find(
+      (v) =>
+        v.branch === record.baseBranch &&
+        (v.releasedAt === null || Date.parse(v.releasedAt) > mergedAt),
+    ) ?? null
+  );
+}
+
+/**
+ * Group records by the version they shipped in. PRs not released yet are grouped by branch,
+ * as the changes since the latest version of the branch. Records without a known branch,
+ * or merged into branches that are not released from (e.g., feature branches), are left out.
+ * Unreleased changes come first (main, then the newest stable branch), then versions newest first.
+ */
+export function groupByRelease(records: StoredPR[], releases: Release[]): ReleaseGroup[] {
+  const versions = getReleaseVersions(releases);
+  const released = new Map<string, ReleaseGroup>();
+  const unreleased = new Map<string, ReleaseGroup>();
+
+  for (const record of records) {
+    const branch = record.baseBranch;
+    if (!branch || (branch !== MAIN_BRANCH && !isStableBranch(branch))) continue;
+
+    const version = findReleaseVersion(record, versions);
+    if (version) {
+      const group = released.get(version.version) ?? {
+        slug: `v${version.version.replaceAll(".", "-")}`,
+        branch: version.branch,
+        version,
+        since: null,
+        records: [],
+      };
+      group.records.push(record);
+      released.set(version.version, group);
+      continue;
+    }
+
+    const latest =
+      branch === MAIN_BRANCH
+        ? versions.filter((v) => v.patch === 0).at(-1)
+        : versions.filter((v) => v.branch === branch && v.releasedAt !== null).at(-1);
+    const group = unreleased.get(branch) ?? {
+      slug: branch,
+      branch,
+      version: null,
+      since: latest?.version ?? null,
+      records: [],
+    };
+    group.records.push(record);
+    unreleased.set(branch, group);
+  }
+
+  const unreleasedGroups = Array.from(unreleased.values()).sort((a, b) => {
+    if (a.branch === MAIN_BRANCH || b.branch === MAIN_BRANCH) {
+      return Number(b.branch === MAIN_BRANCH) - Number(a.branch === MAIN_BRANCH);
+    }
+    const [, aMajor, aMinor] = a.branch.match(STABLE_BRANCH_PATTERN) ?? [];
+    const [, bMajor, bMinor] = b.branch.match(STABLE_BRANCH_PATTERN) ?? [];
+    return Number(bMajor) - Number(aMajor) || Number(bMinor) - Number(aMinor);
+  });
+  const releasedGroups = Array.from(released.values()).sort((a, b) =>
+    compareVersions(b.version as ReleaseVersion, a.version as ReleaseVersion),
+  );
+  return [...unreleasedGroups, ...releasedGroups];
+}
+
+/**
+ * Read the releases saved by the last collection, or none when the file is missing or unreadable
+ */
+export function readReleases(filePath: string): Release[] {
+  if (!existsSync(filePath)) {
+    return [];
+  }
+
+  try {
+    return JSON.parse(readFileSync(filePath, "utf-8")) as Release[];
+  } catch (error) {
+    console.warn("Failed to read releases, starting empty:", error);
+    return [];
+  }
+}
+
+export function saveReleases(filePath: string, releases: Release[]): void {
+  const dir = dirname(filePath);
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
+  }
+
+  writeFileSync(filePath, `${JSON.stringify(releases, null, 2)}\n`, "utf-8");
+}
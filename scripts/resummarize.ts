@@ -0,0 +1,203 @@
+#!/usr/bin/env tsx
+
+import { parseArgs } from "node:util";
+import { createLimiter } from "./concurrency";
+import {
+  DOCS_DIR,
+  FEED_ITEM_LIMIT,
+  GITHUB_CONCURRENCY,
+  GITHUB_TOKEN,
+  INDEX_FILE,
+  MAX_SUMMARY_ATTEMPTS,
+  OPENAI_API_KEY,
+  OPENAI_CONCURRENCY,
+  PR_STORE_DIR,
+  RAILS_OWNER,
+  RAILS_REPO,
+  RELEASES_FILE,
+  RETRY_QUEUE_FILE,
+  SUMMARIZER,
+  SUMMARIZER_BASE_URL,
+  SUMMARIZER_MODEL,
+  SUMMARY_CACHE_DIR,
+  TRIVIAL_PR_MODE,
+  USAGE_LOG_FILE,
+  WEEKLY_OVERVIEWS_FILE,
+} from "./config";
+import { FileManager } from "./file-manager";
+import { GitHubClient } from "./github-client";
+import { createStoredPR, LEGACY_SUMMARY_ERROR_PREFIX, PRStore } from "./pr-store";
+import { readReleases } from "./releases";
+import { RetryQueue } from "./retry-queue";
+import { createSummarizer, type Summarizer } from "./summarizer";
+import { SummaryCache } from "./summary-cache";
+import { parseTrivialPRMode, type TrivialPRMode } from "./triage";
+import { formatUsageSummary, UsageLog, UsageTracker } from "./usage";
+import { WeeklyOverviewStore } from "./weekly";
+
+export interface ResummarizeOptions {
+  prNumbers: number[];
+  errorsOnly: boolean;
+}
+
+/**
+ * Parse command line arguments
+ * e.g., `resummarize 58534 58522`, `resummarize --errors-only`
+ */
+export function parseResummarizeOptions(args: string[]): ResummarizeOptions {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      "errors-only": { type: "boolean", default: false },
+    },
+  });
+
+  const prNumbers = positionals.map((value) => {
+    const prNumber = Number(value.replace(/^#/, ""));
+    if (!Number.isInteger(prNumber) || prNumber <= 0) {
+      throw new Error(`Invalid PR number: "${value}"`);
+    }
+    return prNumber;
+  });
+
+  if (prNumbers.length === 0 && !values["errors-only"]) {
+    throw new Error("Specify PR numbers to re-summarize, or --errors-only");
+  }
+
+  return { prNumbers, errorsOnly: values["errors-only"] };
+}
+
+/**
+ * Re-summarize selected PRs and replace their entries in place.
+ * PRs given a template summary by triage get a full summary.
+ */
+async function resummarize(options: ResummarizeOptions): Promise<void> {
+  console.log("Re-summarizing PRs...\n");
+
+  // Validate environment variables
+  if (!GITHUB_TOKEN) {
+    console.error("Error: GITHUB_TOKEN environment variable is required");
+    process.exit(1);
+  }
+
+  // Re-summarizing is requested by hand, so the monthly budget is not enforced (but is logged)
+  const usageTracker = new UsageTracker();
+  let summarizer: Summarizer;
+  let trivialPRMode: TrivialPRMode;
+  try {
+    summarizer = createSummarizer({
+      provider: SUMMARIZER,
+      apiKey: OPENAI_API_KEY,
+      model: SUMMARIZER_MODEL,
+      baseURL: SUMMARIZER_BASE_URL,
+      usageTracker,
+      // Cached summaries are what is being replaced: only store the new ones
+      cache: new SummaryCache(SUMMARY_CACHE_DIR, { refresh: true }),
+    });
+    trivialPRMode = parseTrivialPRMode(TRIVIAL_PR_MODE);
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+
+  const githubClient = new GitHubClient(GITHUB_TOKEN, RAILS_OWNER, RAILS_REPO);
+  const fileManager = new FileManager(DOCS_DIR, INDEX_FILE, {
+    trivialPRMode,
+    feedItemLimit: FEED_ITEM_LIMIT,
+  });
+  const store = new PRStore(PR_STORE_DIR);
+  store.load();
+  const weeklyOverviews = new WeeklyOverviewStore(WEEKLY_OVERVIEWS_FILE);
+  weeklyOverviews.load();
+  const retryQueue = new RetryQueue(RETRY_QUEUE_FILE, MAX_SUMMARY_ATTEMPTS);
+  retryQueue.load();
+
+  // Fail before any API call when the pages cannot be published from the store
+  if (!fileManager.checkPagesInStore(store)) {
+    process.exit(1);
+  }
+
+  const targets = new Set(options.prNumbers);
+  if (options.errorsOnly) {
+    for (const item of [...retryQueue.getPending(), ...retryQueue.getExhausted()]) {
+      targets.add(item.number);
+    }
+    for (const record of store.all()) {
+      if (
+        typeof record.summary === "string" &&
+        record.summary.startsWith(LEGACY_SUMMARY_ERROR_PREFIX)
+      ) {
+        targets.add(record.number);
+      }
+    }
+  }
+  console.log(`${targets.size} PRs to re-summarize`);
+
+  const githubLimit = createLimiter(GITHUB_CONCURRENCY);
+  const summarizerLimit = createLimiter(OPENAI_CONCURRENCY);
+  const failed: number[] = [];
+
+  const resummarizePR = async (prNumber: number): Promise<void> => {
+    // Only published entries and queued failures can be re-summarized
+    if (!store.has(prNumber) && !retryQueue.has(prNumber)) {
+      console.warn(`PR #${prNumber} is neither in the PR store nor in the retry queue, skipping`);
+      failed.push(prNumber);
+      return;
+    }
+
+    console.log(`Re-summarizing PR #${prNumber}`);
+
+    const prDetails = await githubLimit(() => githubClient.getPRDetails(prNumber));
+    if (!prDetails) {
+      failed.push(prNumber);
+      return;
+    }
+
+    // Re-summarizing is explicit, so trivial PRs get a full summary too.
+    // Keep the current entry rather than replacing it with an error
+    const result = await summarizerLimit(() => summarizer.summarizePR(prDetails));
+    if (!result.ok) {
+      failed.push(prNumber);
+      return;
+    }
+
+    store.upsert(createStoredPR(prDetails, result.summary));
+    retryQueue.remove(prNumber);
+  };
+
+  await Promise.all(Array.from(targets, resummarizePR));
+  failed.sort((a, b) => a - b);
+
+  // Persist the new summaries and re-render the pages they appear on
+  const updatedMonths = store.getDirtyMonths();
+  store.save();
+  retryQueue.save();
+  if (!fileManager.publish(store, updatedMonths, weeklyOverviews, readReleases(RELEASES_FILE))) {
+    process.exit(1);
+  }
+
+  const usage = usageTracker.toLogEntry("resummarize");
+  console.log(`\n${formatUsageSummary(usage)}`);
+  if (usage.requests > 0) {
+    new UsageLog(USAGE_LOG_FILE).append(usage);
+  }
+
+  if (failed.length > 0) {
+    console.error(`\nCould not re-summarize: ${failed.map((n) => `#${n}`).join(", ")}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  console.log("\n✓ Re-summarization completed!");
+}
+
+// Run resummarize function only when executed directly (not imported)
+if (import.meta.url === `file://${process.argv[1]}`) {
+  resummarize(parseResummarizeOptions(process.argv.slice(2))).catch((error) => {
+    console.error("Fatal error:", error);
+    process.exit(1);
+  });
+}
+
+export { resummarize };
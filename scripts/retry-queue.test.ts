@@ -0,0 +1,109 @@
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { RetryQueue } from "./retry-queue";
+
+vi.mock("node:fs");
+
+describe("RetryQueue", () => {
+  let queue: RetryQueue;
+  const filePath = "/test/docs/data/retry-queue.json";
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    queue = new RetryQueue(filePath, 2);
+  });
+
+  it("should reject attempt limits that are not positive integers", () => {
+    for (const maxAttempts of [Number.NaN, 0, 1.5]) {
+      expect(() => new RetryQueue(filePath, maxAttempts)).toThrow(
+        `Max summary attempts must be a positive integer (got ${maxAttempts})`,
+      );
+    }
+  });
+
+  describe("load", () => {
+    it("should start empty when the file does not exist", () => {
+      vi.mocked(existsSync).mockReturnValue(false);
+
+      queue.load();
+
+      expect(queue.getPending()).toEqual([]);
+    });
+
+    it("should load queued PRs", () => {
+      vi.mocked(existsSync).mockReturnValue(true);
+      vi.mocked(readFileSync).mockReturnValue(
+        JSON.stringify([
+          { number: 1, attempts: 1, lastError: "API Error", lastAttemptAt: "2026-08-10T00:00:00Z" },
+        ]),
+      );
+
+      queue.load();
+
+      expect(queue.has(1)).toBe(true);
+    });
+
+    it("should start empty when the file is invalid", () => {
+      vi.mocked(existsSync).mockReturnValue(true);
+      vi.mocked(readFileSync).mockReturnValue("invalid json");
+
+      queue.load();
+
+      expect(queue.getPending()).toEqual([]);
+    });
+  });
+
+  describe("recordFailure", () => {
+    it("should count attempts until the PR runs out of them", () => {
+      queue.recordFailure(1, "API Error");
+      expect(queue.getPending().map((item) => item.attempts)).toEqual([1]);
+
+      queue.recordFailure(1, "Timeout");
+
+      expect(queue.getPending()).toEqual([]);
+      expect(queue.getExhausted()).toEqual([
+        expect.objectContaining({ number: 1, attempts: 2, lastError: "Timeout" }),
+      ]);
+    });
+  });
+
+  describe("defer", () => {
+    it("should queue the PR without counting an attempt", () => {
+      queue.recordFailure(1, "API Error");
+
+      queue.defer(1, "monthly budget reached");
+      queue.defer(2, "monthly budget reached");
+
+      expect(queue.getPending()).toMatchObject([
+        { number: 1, attempts: 1, lastError: "monthly budget reached" },
+        { number: 2, attempts: 0, lastError: "monthly budget reached" },
+      ]);
+    });
+  });
+
+  describe("remove", () => {
+    it("should drop the PR from the queue", () => {
+      queue.recordFailure(1, "API Error");
+
+      queue.remove(1);
+
+      expect(queue.has(1)).toBe(false);
+    });
+  });
+
+  describe("save", () => {
+    it("should write queued PRs sorted by number", () => {
+      vi.mocked(existsSync).mockReturnValue(true);
+      queue.recordFailure(2, "API Error");
+      queue.recordFailure(1, "API Error");
+
+      queue.save();
+
+      const [filepath, content] = vi.mocked(writeFileSync).mock.calls[0];
+      expect(filepath).toBe(filePath);
+      expect(JSON.parse(content as string).map((item: { number: number }) => item.number)).toEqual([
+        1, 2,
+      ]);
+    });
+  });
+});
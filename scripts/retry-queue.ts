@@ -0,0 +1,119 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname } from "node:path";
+
+export interface FailedPR {
+  number: number;
+  attempts: number;
+  lastError: string;
+  lastAttemptAt: string;
+}
+
+/**
+ * PRs that could not be fetched or summarized, retried on subsequent runs.
+ * A PR stays queued after its last allowed attempt so the failure remains visible.
+ */
+export class RetryQueue {
+  private filePath: string;
+  private maxAttempts: number;
+  private items = new Map<number, FailedPR>();
+
+  constructor(filePath: string, maxAttempts: number) {
+    if (!Number.isInteger(maxAttempts) || maxAttempts < 1) {
+      throw new Error(`Max summary attempts must be a positive integer (got ${maxAttempts})`);
+    }
+    this.filePath = filePath;
+    this.maxAttempts = maxAttempts;
+  }
+
+  /**
+   * Load the queue, or start empty when the file is missing or unreadable
+   */
+  load(): void {
+    this.items.clear();
+
+    if (!existsSync(this.filePath)) {
+      return;
+    }
+
+    try {
+      const items = JSON.parse(readFileSync(this.filePath, "utf-8")) as FailedPR[];
+      for (const item of items) {
+        this.items.set(item.number, item);
+      }
+    } catch (error) {
+      console.warn("Failed to read retry queue, starting empty:", error);
+    }
+  }
+
+  has(prNumber: number): boolean {
+    return this.items.has(prNumber);
+  }
+
+  /**
+   * Get queued PRs that have attempts left, oldest PR first
+   */
+  getPending(): FailedPR[] {
+    return this.all().filter((item) => item.attempts < this.maxAttempts);
+  }
+
+  /**
+   * Get queued PRs that ran out of attempts
+   */
+  getExhausted(): FailedPR[] {
+    return this.all().filter((item) => item.attempts >= this.maxAttempts);
+  }
+
+  /**
+   * Count a failed attempt for the PR, queueing it if needed
+   */
+  recordFailure(prNumber: number, error: string): FailedPR {
+    const item: FailedPR = {
+      number: prNumber,
+      attempts: (this.items.get(prNumber)?.attempts ?? 0) + 1,
+      lastError: error,
+      lastAttemptAt: new Date().toISOString(),
+    };
+    this.items.set(prNumber, item);
+
+    if (item.attempts >= this.maxAttempts) {
+      console.warn(`PR #${prNumber} failed ${item.attempts} times, giving up`);
+    }
+    return item;
+  }
+
+  /**
+   * Queue the PR for the next run without counting an attempt
+   * (e.g., when it was not summarized because the budget ran out)
+   */
+  defer(prNumber: number, reason: string): void {
+    this.items.set(prNumber, {
+      number: prNumber,
+      attempts: this.items.get(prNumber)?.attempts ?? 0,
+      lastError: reason,
+      lastAttemptAt: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Remove a PR from the queue (e.g., after it was summarized)
+   */
+  remove(prNumber: number): void {
+    this.items.delete(prNumber);
+  }
+
+  /**
+   * Write the queue
+   */
+  save(): void {
+    const dir = dirname(this.filePath);
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+
+    writeFileSync(this.filePath, `${JSON.stringify(this.all(), null, 2)}\n`, "utf-8");
+  }
+
+  private all(): FailedPR[] {
+    return Array.from(this.items.values()).sort((a, b) => a.number - b.number);
+  }
+}
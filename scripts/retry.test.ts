@@ -0,0 +1,136 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { getBackoffDelay, getRequestedDelay, isRetryableError, withRetry } from "./retry";
+
+function httpError(status: number, headers: Record<string, string> = {}, message = "Error") {
+  return Object.assign(new Error(message), { status, response: { headers } });
+}
+
+describe("retry", () => {
+  describe("isRetryableError", () => {
+    it("should retry server errors and rate limits", () => {
+      expect(isRetryableError(httpError(502))).toBe(true);
+      expect(isRetryableError(httpError(429))).toBe(true);
+    });
+
+    it("should retry GitHub rate limits reported as 403", () => {
+      expect(isRetryableError(httpError(403, { "x-ratelimit-remaining": "0" }))).toBe(true);
+      expect(isRetryableError(httpError(403, {}, "You have exceeded a secondary rate limit"))).toBe(
+        true,
+      );
+    });
+
+    it("should not retry client errors", () => {
+      expect(isRetryableError(httpError(404))).toBe(false);
+      expect(isRetryableError(httpError(403, {}, "Resource not accessible"))).toBe(false);
+    });
+
+    it("should not retry an exhausted OpenAI quota", () => {
+      expect(isRetryableError(Object.assign(httpError(429), { code: "insufficient_quota" }))).toBe(
+        false,
+      );
+    });
+
+    it("should retry network errors", () => {
+      expect(isRetryableError(Object.assign(new Error("reset"), { code: "ECONNRESET" }))).toBe(
+        true,
+      );
+      expect(isRetryableError(new Error("Unexpected"))).toBe(false);
+    });
+  });
+
+  describe("getRequestedDelay", () => {
+    const now = Date.parse("2026-08-10T00:00:00Z");
+
+    it("should read Retry-After in seconds", () => {
+      expect(getRequestedDelay(httpError(429, { "retry-after": "30" }), now)).toBe(30000);
+    });
+
+    it("should read Retry-After as an HTTP date", () => {
+      const error = httpError(503, { "retry-after": "Mon, 10 Aug 2026 00:00:10 GMT" });
+      expect(getRequestedDelay(error, now)).toBe(10000);
+    });
+
+    it("should read headers from a Headers object", () => {
+      const error = Object.assign(new Error("Rate limited"), {
+        status: 429,
+        headers: new Headers({ "retry-after-ms": "1500" }),
+      });
+      expect(getRequestedDelay(error, now)).toBe(1500);
+    });
+
+    it("should wait for x-ratelimit-reset once the rate limit is used up", () => {
+      const error = httpError(403, {
+        "x-ratelimit-remaining": "0",
+        "x-ratelimit-reset": String(now / 1000 + 60),
+      });
+      expect(getRequestedDelay(error, now)).toBe(60000);
+    });
+
+    it("should return null without rate-limit headers", () => {
+      expect(getRequestedDelay(httpError(502), now)).toBeNull();
+    });
+  });
+
+  describe("getBackoffDelay", () => {
+    it("should grow exponentially within the jitter range and the cap", () => {
+      for (let attempt = 0; attempt < 5; attempt++) {
+        const delay = getBackoffDelay(attempt, 1000, 10000);
+        const full = Math.min(10000, 1000 * 2 ** attempt);
+        expect(delay).toBeGreaterThanOrEqual(full / 2);
+        expect(delay).toBeLessThanOrEqual(full);
+      }
+    });
+  });
+
+  describe("withRetry", () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+      vi.restoreAllMocks();
+    });
+
+    it("should retry transient failures until the call succeeds", async () => {
+      const operation = vi
+        .fn()
+        .mockRejectedValueOnce(httpError(502))
+        .mockRejectedValueOnce(httpError(429, { "retry-after": "2" }))
+        .mockResolvedValue("ok");
+
+      const promise = withRetry(operation, { label: "Test" });
+      await vi.runAllTimersAsync();
+
+      await expect(promise).resolves.toBe("ok");
+      expect(operation).toHaveBeenCalledTimes(3);
+      expect(console.warn).toHaveBeenCalledWith(expect.stringContaining("retrying in 3.0s"));
+    });
+
+    it("should rethrow errors that cannot be retried", async () => {
+      const operation = vi.fn().mockRejectedValue(httpError(404));
+
+      await expect(withRetry(operation, { label: "Test" })).rejects.toThrow("Error");
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+
+    it("should give up after the maximum number of retries", async () => {
+      const operation = vi.fn().mockRejectedValue(httpError(503));
+
+      const promise = withRetry(operation, { label: "Test", maxRetries: 2 });
+      const assertion = expect(promise).rejects.toThrow("Error");
+      await vi.runAllTimersAsync();
+
+      await assertion;
+      expect(operation).toHaveBeenCalledTimes(3);
+    });
+
+    it("should not wait for a rate limit that resets too late", async () => {
+      const operation = vi.fn().mockRejectedValue(httpError(429, { "retry-after": "3600" }));
+
+      await expect(withRetry(operation, { label: "Test" })).rejects.toThrow("Error");
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+  });
+});
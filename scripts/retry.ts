@@ -0,0 +1,148 @@
+export interface RetryOptions {
+  // Used in log messages, e.g., "GET pulls #12345"
+  label: string;
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+const DEFAULT_MAX_RETRIES = 4;
+const DEFAULT_BASE_DELAY_MS = 1000;
+const DEFAULT_MAX_DELAY_MS = 60 * 1000;
+// Give up instead of waiting when a rate limit resets later than this
+const MAX_RATE_LIMIT_WAIT_MS = 5 * 60 * 1000;
+
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+// Network errors thrown before any response (no HTTP status)
+const RETRYABLE_ERROR_NAMES = new Set(["APIConnectionError", "APIConnectionTimeoutError"]);
+const RETRYABLE_ERROR_CODES = new Set(["ECONNRESET", "ETIMEDOUT", "ECONNREFUSED", "EAI_AGAIN"]);
+
+type HeaderBag = Headers | Record<string, string | number | undefined>;
+
+interface HTTPErrorLike {
+  name?: string;
+  message?: string;
+  status?: number;
+  code?: string | null;
+  // OpenAI errors carry the headers directly, Octokit errors on the response
+  headers?: HeaderBag;
+  response?: { headers?: HeaderBag };
+}
+
+function getHeader(error: HTTPErrorLike, name: string): string | undefined {
+  const headers = error.headers ?? error.response?.headers;
+  if (!headers) return undefined;
+
+  const value = headers instanceof Headers ? headers.get(name) : headers[name];
+  return value === null || value === undefined ? undefined : String(value);
+}
+
+/**
+ * GitHub reports both primary and secondary rate limits as 403
+ */
+function isRateLimited(error: HTTPErrorLike): boolean {
+  return (
+    error.status === 429 ||
+    (error.status === 403 &&
+      (getHeader(error, "x-ratelimit-remaining") === "0" ||
+        getHeader(error, "retry-after") !== undefined ||
+        /rate limit/i.test(error.message ?? "")))
+  );
+}
+
+/**
+ * Whether the error is transient and the call is worth retrying
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (typeof error !== "object" || error === null) return false;
+  const httpError = error as HTTPErrorLike;
+
+  // Exhausted billing quota is reported as 429 but never recovers by waiting
+  if (httpError.code === "insufficient_quota") return false;
+
+  if (httpError.status !== undefined) {
+    return RETRYABLE_STATUSES.has(httpError.status) || isRateLimited(httpError);
+  }
+
+  return (
+    RETRYABLE_ERROR_NAMES.has(httpError.name ?? "") ||
+    RETRYABLE_ERROR_CODES.has(httpError.code ?? "")
+  );
+}
+
+/**
+ * Get the wait requested by the server: `retry-after-ms`, `retry-after` (seconds or HTTP date),
+ * or GitHub's `x-ratelimit-reset` (epoch seconds) once the rate limit is used up
+ */
+export function getRequestedDelay(error: unknown, now = Date.now()): number | null {
+  if (typeof error !== "object" || error === null) return null;
+  const httpError = error as HTTPErrorLike;
+
+  const retryAfterMs = Number.parseFloat(getHeader(httpError, "retry-after-ms") ?? "");
+  if (Number.isFinite(retryAfterMs)) return Math.max(0, retryAfterMs);
+
+  const retryAfter = getHeader(httpError, "retry-after");
+  if (retryAfter !== undefined) {
+    const seconds = Number.parseFloat(retryAfter);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) return Math.max(0, date - now);
+  }
+
+  const reset = Number.parseInt(getHeader(httpError, "x-ratelimit-reset") ?? "", 10);
+  if (getHeader(httpError, "x-ratelimit-remaining") === "0" && Number.isFinite(reset)) {
+    return Math.max(0, reset * 1000 - now);
+  }
+
+  return null;
+}
+
+/**
+ * Exponential backoff with jitter: a random delay between half and all of
+ * baseDelayMs * 2^attempt, capped at maxDelayMs
+ */
+export function getBackoffDelay(attempt: number, baseDelayMs: number, maxDelayMs: number): number {
+  const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+  return Math.round(delay / 2 + Math.random() * (delay / 2));
+}
+
+/**
+ * Run an API call, retrying transient failures (5xx, 429, rate limits, network errors).
+ * Waits as long as the server asks via rate-limit headers, otherwise backs off exponentially.
+ * The last error is rethrown when the call cannot be retried.
+ */
+export async function withRetry<T>(operation: () => Promise<T>, options: RetryOptions): Promise<T> {
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+  const baseDelayMs = options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+  const maxDelayMs = options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= maxRetries || !isRetryableError(error)) {
+        throw error;
+      }
+
+      const requestedDelay = getRequestedDelay(error);
+      if (requestedDelay !== null && requestedDelay > MAX_RATE_LIMIT_WAIT_MS) {
+        console.warn(
+          `${options.label}: rate limit resets in ${Math.ceil(requestedDelay / 1000)}s, not retrying`,
+        );
+        throw error;
+      }
+
+      // Add a second to the server's wait so the limit has surely reset
+      const delay =
+        requestedDelay !== null
+          ? requestedDelay + 1000
+          : getBackoffDelay(attempt, baseDelayMs, maxDelayMs);
+      const reason = error instanceof Error ? error.message : String(error);
+      console.warn(
+        `${options.label} failed (${reason}), retrying in ${(delay / 1000).toFixed(1)}s (retry ${attempt + 1}/${maxRetries})`,
+      );
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
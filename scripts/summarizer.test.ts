@@ -0,0 +1,92 @@
+import { describe, expect, it, vi } from "vitest";
+import { FakeSummarizer } from "./fake-summarizer";
+import type { PRDetails } from "./github-client";
+import { OpenAIClient } from "./openai-client";
+import { createSummarizer } from "./summarizer";
+
+vi.mock("openai", () => ({ default: vi.fn() }));
+
+const prData: PRDetails = {
+  pr: {
+    number: 12345,
+    title: "Fix authentication bug",
+    body: null,
+    html_url: "https://github.com/rails/rails/pull/12345",
+    merged_at: "2025-11-24T10:00:00Z",
+    additions: 10,
+    deletions: 5,
+    changed_files: 1,
+    labels: [],
+    head_sha: "abc123",
+    base_ref: "main",
+    user: null,
+  },
+  files: [{ filename: "auth.rb", additions: 10, deletions: 5 }],
+  linkedIssues: [],
+  comments: [],
+  changelogEntries: [],
+};
+
+describe("createSummarizer", () => {
+  it("should create an OpenAI client", () => {
+    expect(createSummarizer({ provider: "openai", apiKey: "test-api-key" })).toBeInstanceOf(
+      OpenAIClient,
+    );
+  });
+
+  it("should require an API key for OpenAI", () => {
+    expect(() => createSummarizer({ provider: "openai" })).toThrow("OPENAI_API_KEY");
+  });
+
+  it("should create a client for an OpenAI-compatible server without an API key", () => {
+    const summarizer = createSummarizer({
+      provider: "openai-compatible",
+      model: "llama3.1",
+      baseURL: "http://localhost:11434/v1",
+    });
+
+    expect(summarizer).toBeInstanceOf(OpenAIClient);
+  });
+
+  it("should require a base URL and model for OpenAI-compatible servers", () => {
+    expect(() => createSummarizer({ provider: "openai-compatible", model: "llama3.1" })).toThrow(
+      "SUMMARIZER_BASE_URL",
+    );
+  });
+
+  it("should create a fake summarizer", () => {
+    expect(createSummarizer({ provider: "fake" })).toBeInstanceOf(FakeSummarizer);
+  });
+
+  it("should reject unknown providers", () => {
+    expect(() => createSummarizer({ provider: "unknown" })).toThrow('Unknown summarizer "unknown"');
+  });
+});
+
+describe("FakeSummarizer", () => {
+  it("should return the same summary for the same PR", async () => {
+    const summarizer = new FakeSummarizer();
+
+    const first = await summarizer.summarizePR(prData);
+    const second = await summarizer.summarizePR(prData);
+
+    expect(first).toEqual(second);
+    expect(first).toEqual({
+      ok: true,
+      summary: expect.objectContaining({ overview: "Fix authentication bug (#12345)" }),
+    });
+  });
+
+  it("should count the week's PRs by change type", async () => {
+    const result = await new FakeSummarizer().summarizeWeek("2026-W33", [
+      { number: 1, title: "A", changeType: "feature", breaking: false, overview: "" },
+      { number: 2, title: "B", changeType: "feature", breaking: false, overview: "" },
+      { number: 3, title: "C", changeType: "removal", breaking: true, overview: "" },
+    ]);
+
+    expect(result).toEqual({
+      ok: true,
+      overview: "- 3件のPRがマージされました（新機能 2件、削除 1件）\n- 破壊的変更: #3",
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import type { ChangeType } from "./change-types";
+import { FakeSummarizer } from "./fake-summarizer";
+import type { PRDetails } from "./github-client";
+import { OpenAIClient } from "./openai-client";
+import type { SummaryCache } from "./summary-cache";
+import type { StructuredSummary } from "./summary-schema";
+import type { UsageTracker } from "./usage";
+
+export type SummaryResult = { ok: true; summary: StructuredSummary } | { ok: false; error: string };
+
+export type WeeklyOverviewResult = { ok: true; overview: string } | { ok: false; error: string };
+
+// A PR as given to the weekly overview: its summarized form, not its diff
+export interface WeeklyPR {
+  number: number;
+  title: string;
+  changeType: ChangeType;
+  breaking: boolean;
+  overview: string;
+}
+
+/**
+ * Generates the Japanese summary of a PR and the overview of a week's PRs.
+ * Failures are returned, not thrown.
+ */
+export interface Summarizer {
+  summarizePR(prData: PRDetails): Promise<SummaryResult>;
+  // Markdown list of the week's (YYYY-Www) notable changes
+  summarizeWeek(weekKey: string, prs: WeeklyPR[]): Promise<WeeklyOverviewResult>;
+}
+
+export interface SummarizerConfig {
+  // "openai", "openai-compatible" or "fake"
+  provider: string;
+  apiKey?: string;
+  model?: string;
+  // Base URL of an OpenAI-compatible server, e.g., http://localhost:11434/v1
+  baseURL?: string;
+  // Records the token usage of the OpenAI backends
+  usageTracker?: UsageTracker;
+  // Summaries of the OpenAI backends already generated for the same input
+  cache?: SummaryCache;
+}
+
+/**
+ * Create the summarizer selected by the configuration
+ */
+export function createSummarizer(config: SummarizerConfig): Summarizer {
+  switch (config.provider) {
+    case "openai":
+      if (!config.apiKey) {
+        throw new Error("OPENAI_API_KEY environment variable is required");
+      }
+      return new OpenAIClient(config.apiKey, {
+        model: config.model,
+        usageTracker: config.usageTracker,
+        cache: config.cache,
+      });
+    case "openai-compatible":
+      if (!config.baseURL || !config.model) {
+        throw new Error(
+          "SUMMARIZER_BASE_URL and SUMMARIZER_MODEL environment variables are required for openai-compatible",
+        );
+      }
+      // Local servers usually accept any API key
+      return new OpenAIClient(config.apiKey || "not-needed", {
+        model: config.model,
+        baseURL: config.baseURL,
+        usageTracker: config.usageTracker,
+        cache: config.cache,
+      });
+    case "fake":
+      return new FakeSummarizer();
+    default:
+      throw new Error(
+        `Unknown summarizer "${config.provider}" (expected openai, openai-compatible or fake)`,
+      );
+  }
+}
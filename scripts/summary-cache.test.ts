@@ -0,0 +1,86 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { getCacheKeyHash, SummaryCache } from "./summary-cache";
+
+vi.mock("node:fs");
+
+const key = { prNumber: 12345, headSha: "abc123", promptVersion: 1, model: "gpt-5.1" };
+
+const summary = {
+  overview: "Overview",
+  details: "Details",
+  impact: "Impact",
+  references: [],
+  codeSamples: [],
+  changeType: "feature" as const,
+  breaking: false,
+};
+
+describe("SummaryCache", () => {
+  const dir = "/test/.cache/summaries";
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  describe("getCacheKeyHash", () => {
+    it("should change with every part of the key", () => {
+      const hash = getCacheKeyHash(key);
+
+      expect(hash).toMatch(/^[0-9a-f]{64}$/);
+      expect(getCacheKeyHash({ ...key })).toBe(hash);
+      expect(getCacheKeyHash({ ...key, headSha: "def456" })).not.toBe(hash);
+      expect(getCacheKeyHash({ ...key, promptVersion: 2 })).not.toBe(hash);
+      expect(getCacheKeyHash({ ...key, model: "gpt-5-mini" })).not.toBe(hash);
+    });
+  });
+
+  describe("get", () => {
+    it("should return the cached summary", () => {
+      vi.mocked(existsSync).mockReturnValue(true);
+      vi.mocked(readFileSync).mockReturnValue(JSON.stringify({ key, summary }));
+
+      expect(new SummaryCache(dir).get(key)).toEqual(summary);
+      expect(readFileSync).toHaveBeenCalledWith(`${dir}/${getCacheKeyHash(key)}.json`, "utf-8");
+    });
+
+    it("should miss when there is no entry", () => {
+      vi.mocked(existsSync).mockReturnValue(false);
+
+      expect(new SummaryCache(dir).get(key)).toBeNull();
+    });
+
+    it("should miss on invalid entries", () => {
+      vi.mocked(existsSync).mockReturnValue(true);
+      vi.mocked(readFileSync).mockReturnValue(
+        JSON.stringify({ key, summary: { ...summary, overview: "" } }),
+      );
+
+      expect(new SummaryCache(dir).get(key)).toBeNull();
+
+      vi.mocked(readFileSync).mockReturnValue("{broken");
+
+      expect(new SummaryCache(dir).get(key)).toBeNull();
+    });
+
+    it("should always miss when refreshing", () => {
+      vi.mocked(existsSync).mockReturnValue(true);
+      vi.mocked(readFileSync).mockReturnValue(JSON.stringify({ key, summary }));
+
+      expect(new SummaryCache(dir, { refresh: true }).get(key)).toBeNull();
+    });
+  });
+
+  describe("set", () => {
+    it("should write the entry under its content address", () => {
+      vi.mocked(existsSync).mockReturnValue(false);
+
+      new SummaryCache(dir).set(key, summary);
+
+      expect(mkdirSync).toHaveBeenCalledWith(dir, { recursive: true });
+      const [filepath, content] = vi.mocked(writeFileSync).mock.calls[0];
+      expect(filepath).toBe(`${dir}/${getCacheKeyHash(key)}.json`);
+      expect(JSON.parse(content as string)).toMatchObject({ key, summary });
+    });
+  });
+});
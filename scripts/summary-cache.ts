@@ -0,0 +1,81 @@
+import { createHash } from "node:crypto";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { type StructuredSummary, validateStructuredSummary } from "./summary-schema";
+
+// Everything that determines a summary: a change to any of them means a new summary
+export interface SummaryCacheKey {
+  prNumber: number;
+  headSha: string;
+  promptVersion: number;
+  model: string;
+}
+
+export interface SummaryCacheOptions {
+  // Ignore cached summaries but still store new ones (e.g., when re-summarizing on purpose)
+  refresh?: boolean;
+}
+
+interface SummaryCacheEntry {
+  key: SummaryCacheKey;
+  summary: StructuredSummary;
+  cachedAt: string;
+}
+
+/**
+ * Content address of a summary: SHA-256 of its key
+ */
+export function getCacheKeyHash(key: SummaryCacheKey): string {
+  return createHash("sha256")
+    .update(JSON.stringify([key.prNumber, key.headSha, key.promptVersion, key.model]))
+    .digest("hex");
+}
+
+/**
+ * Local cache of generated summaries, one JSON file per key (e.g., .cache/summaries/<hash>.json).
+ * Lets a re-run after a crash reuse the summaries it already paid for.
+ */
+export class SummaryCache {
+  private dir: string;
+  private refresh: boolean;
+
+  constructor(dir: string, options: SummaryCacheOptions = {}) {
+    this.dir = dir;
+    this.refresh = options.refresh ?? false;
+  }
+
+  /**
+   * Get the cached summary for the key. Unreadable or invalid entries count as misses.
+   */
+  get(key: SummaryCacheKey): StructuredSummary | null {
+    const filepath = this.getPath(key);
+    if (this.refresh || !existsSync(filepath)) {
+      return null;
+    }
+
+    try {
+      const entry = JSON.parse(readFileSync(filepath, "utf-8")) as SummaryCacheEntry;
+      if (validateStructuredSummary(entry.summary).length > 0) {
+        console.warn(`Ignoring invalid cached summary for PR #${key.prNumber}: ${filepath}`);
+        return null;
+      }
+      return entry.summary;
+    } catch (error) {
+      console.warn(`Ignoring unreadable cached summary for PR #${key.prNumber}:`, error);
+      return null;
+    }
+  }
+
+  set(key: SummaryCacheKey, summary: StructuredSummary): void {
+    if (!existsSync(this.dir)) {
+      mkdirSync(this.dir, { recursive: true });
+    }
+
+    const entry: SummaryCacheEntry = { key, summary, cachedAt: new Date().toISOString() };
+    writeFileSync(this.getPath(key), `${JSON.stringify(entry, null, 2)}\n`, "utf-8");
+  }
+
+  private getPath(key: SummaryCacheKey): string {
+    return join(this.dir, `${getCacheKeyHash(key)}.json`);
+  }
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { parseStructuredSummary, validateStructuredSummary } from "./summary-schema";
+
+const validSummary = {
+  overview: "Adds an option.",
+  details: "Details",
+  impact: "Impact",
+  references: [],
+  codeSamples: [{ language: "ruby", code: "Post.first", description: "" }],
+  changeType: "feature" as const,
+  breaking: false,
+};
+
+describe("summary-schema", () => {
+  describe("validateStructuredSummary", () => {
+    it("should accept a valid summary", () => {
+      expect(validateStructuredSummary(validSummary)).toEqual([]);
+    });
+
+    it("should report missing, empty and unknown properties", () => {
+      const { details: _details, ...withoutDetails } = validSummary;
+
+      expect(validateStructuredSummary({ ...withoutDetails, overview: " ", extra: 1 })).toEqual([
+        "overview must be a non-empty string",
+        "details must be a non-empty string",
+        "unknown properties: extra",
+      ]);
+    });
+
+    it("should report invalid code samples", () => {
+      expect(validateStructuredSummary({ ...validSummary, codeSamples: [{ code: "" }] })).toEqual([
+        "codeSamples[0] must have language, code and description strings",
+      ]);
+    });
+
+    it("should report an unknown change type and a missing breaking flag", () => {
+      const { breaking: _breaking, ...withoutBreaking } = validSummary;
+
+      expect(validateStructuredSummary({ ...withoutBreaking, changeType: "refactor" })).toEqual([
+        "changeType must be one of feature, bugfix, deprecation, removal, performance, docs, internal",
+        "breaking must be a boolean",
+      ]);
+    });
+
+    it("should reject non-objects", () => {
+      expect(validateStructuredSummary([])).toEqual(["summary must be an object"]);
+    });
+  });
+
+  describe("parseStructuredSummary", () => {
+    it("should parse and trim a valid summary", () => {
+      const result = parseStructuredSummary(
+        JSON.stringify({ ...validSummary, overview: " Adds an option.\n" }),
+      );
+
+      expect(result).toEqual({ ok: true, summary: validSummary });
+    });
+
+    it("should report invalid JSON", () => {
+      const result = parseStructuredSummary("1. 概要");
+
+      expect(result).toEqual({ ok: false, error: expect.stringContaining("invalid JSON") });
+    });
+
+    it("should report schema violations", () => {
+      const result = parseStructuredSummary(JSON.stringify({ ...validSummary, references: [1] }));
+
+      expect(result).toEqual({
+        ok: false,
+        error: "invalid summary: references must be an array of non-empty strings",
+      });
+    });
+  });
+});
@@ -0,0 +1,173 @@
+import { CHANGE_TYPE_KEYS, type ChangeType, isChangeType } from "./change-types";
+
+export interface CodeSample {
+  language: string;
+  code: string;
+  description: string;
+}
+
+export interface StructuredSummary {
+  // 1-2 sentences
+  overview: string;
+  details: string;
+  impact: string;
+  references: string[];
+  codeSamples: CodeSample[];
+  // The model's view of the change; the stored classification also weighs the CHANGELOG and diff
+  changeType: ChangeType;
+  breaking: boolean;
+}
+
+// Summaries are structured, except those recovered from pages written before (plain Markdown)
+export type Summary = StructuredSummary | string;
+
+export type ParseSummaryResult =
+  | { ok: true; summary: StructuredSummary }
+  | { ok: false; error: string };
+
+/**
+ * JSON Schema of StructuredSummary for structured outputs (strict mode: every property required)
+ */
+export const SUMMARY_JSON_SCHEMA = {
+  type: "object",
+  properties: {
+    overview: { type: "string", description: "変更の概要 (1-2文)" },
+    details: { type: "string", description: "変更内容の詳細 (Markdown、見出しは使わない)" },
+    impact: { type: "string", description: "影響範囲・注意点 (Markdown、見出しは使わない)" },
+    references: {
+      type: "array",
+      items: { type: "string" },
+      description: "参考情報 (関連Issue・ドキュメントのURLなど)",
+    },
+    codeSamples: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          language: { type: "string", description: "コードの言語 (例: ruby, erb, yaml)" },
+          code: { type: "string" },
+          description: { type: "string", description: "サンプルコードの説明" },
+        },
+        required: ["language", "code", "description"],
+        additionalProperties: false,
+      },
+    },
+    changeType: {
+      type: "string",
+      enum: CHANGE_TYPE_KEYS,
+      description:
+        "変更の種類 (feature: 新機能, bugfix: バグ修正, deprecation: 非推奨化, removal: 削除, performance: パフォーマンス改善, docs: ドキュメント, internal: テスト・リファクタリングなど利用者に影響しない変更)",
+    },
+    breaking: {
+      type: "boolean",
+      description:
+        "アップグレード時にアプリケーションの変更が必要になりうるか (挙動の削除・デフォルト値の変更など)",
+    },
+  },
+  required: [
+    "overview",
+    "details",
+    "impact",
+    "references",
+    "codeSamples",
+    "changeType",
+    "breaking",
+  ],
+  additionalProperties: false,
+} as const;
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim() !== "";
+}
+
+/**
+ * Validate a value against SUMMARY_JSON_SCHEMA, returning the problems found
+ */
+export function validateStructuredSummary(value: unknown): string[] {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return ["summary must be an object"];
+  }
+
+  const summary = value as Record<string, unknown>;
+  const errors: string[] = [];
+
+  for (const key of ["overview", "details", "impact"]) {
+    if (!isNonEmptyString(summary[key])) {
+      errors.push(`${key} must be a non-empty string`);
+    }
+  }
+
+  if (!Array.isArray(summary.references) || !summary.references.every(isNonEmptyString)) {
+    errors.push("references must be an array of non-empty strings");
+  }
+
+  if (!Array.isArray(summary.codeSamples)) {
+    errors.push("codeSamples must be an array");
+  } else {
+    summary.codeSamples.forEach((sample, i) => {
+      const { language, code, description } = (sample ?? {}) as Record<string, unknown>;
+      if (
+        typeof language !== "string" ||
+        !isNonEmptyString(code) ||
+        typeof description !== "string"
+      ) {
+        errors.push(`codeSamples[${i}] must have language, code and description strings`);
+      }
+    });
+  }
+
+  if (typeof summary.changeType !== "string" || !isChangeType(summary.changeType)) {
+    errors.push(`changeType must be one of ${CHANGE_TYPE_KEYS.join(", ")}`);
+  }
+
+  if (typeof summary.breaking !== "boolean") {
+    errors.push("breaking must be a boolean");
+  }
+
+  const unknownKeys = Object.keys(summary).filter(
+    (key) => !(SUMMARY_JSON_SCHEMA.required as readonly string[]).includes(key),
+  );
+  if (unknownKeys.length > 0) {
+    errors.push(`unknown properties: ${unknownKeys.join(", ")}`);
+  }
+
+  return errors;
+}
+
+/**
+ * Parse model output into a StructuredSummary
+ */
+export function parseStructuredSummary(content: string): ParseSummaryResult {
+  let value: unknown;
+  try {
+    value = JSON.parse(content);
+  } catch (error) {
+    return {
+      ok: false,
+      error: `invalid JSON: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+
+  const errors = validateStructuredSummary(value);
+  if (errors.length > 0) {
+    return { ok: false, error: `invalid summary: ${errors.join("; ")}` };
+  }
+
+  const summary = value as StructuredSummary;
+  return {
+    ok: true,
+    summary: {
+      overview: summary.overview.trim(),
+      details: summary.details.trim(),
+      impact: summary.impact.trim(),
+      references: summary.references.map((reference) => reference.trim()),
+      codeSamples: summary.codeSamples.map((sample) => ({
+        language: sample.language.trim(),
+        code: sample.code.replace(/^\n+|\s+$/g, ""),
+        description: sample.description.trim(),
+      })),
+      changeType: summary.changeType,
+      breaking: summary.breaking,
+    },
+  };
+}
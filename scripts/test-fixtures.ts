@@ -0,0 +1,31 @@
+import type { StoredPR } from "./pr-store";
+
+/**
+ * Create a store record for tests: a merged internal change with a plain summary
+ */
+export function createRecord(overrides: Partial<StoredPR> = {}): StoredPR {
+  const number = overrides.number ?? 12345;
+  return {
+    number,
+    title: "Test PR",
+    url: `https://github.com/rails/rails/pull/${number}`,
+    mergedAt: "2026-08-10T10:00:00Z",
+    author: "testuser",
+    authorUrl: "https://github.com/testuser",
+    body: null,
+    additions: 1,
+    deletions: 1,
+    changedFiles: 1,
+    files: [],
+    labels: [],
+    baseBranch: "main",
+    backportOf: null,
+    components: [],
+    changeType: "internal",
+    breaking: false,
+    summary: "Summary",
+    trivial: null,
+    collectedAt: "2026-08-11T00:00:00Z",
+    ...overrides,
+  };
+}
@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+import type { PRDetails } from "./github-client";
+import { createTemplateSummary, createTriageOptions, parseTrivialPRMode, triagePR } from "./triage";
+
+function createPRDetails(overrides: Partial<PRDetails> = {}, login = "testuser"): PRDetails {
+  return {
+    pr: {
+      number: 1,
+      title: "Fix typo",
+      html_url: "https://github.com/rails/rails/pull/1",
+      merged_at: "2026-08-10T10:00:00Z",
+      body: null,
+      additions: 20,
+      deletions: 10,
+      changed_files: 1,
+      labels: [],
+      head_sha: "abc123",
+      base_ref: "main",
+      user: { login, html_url: `https://github.com/${login}` },
+    },
+    files: [{ filename: "activerecord/lib/active_record/base.rb", additions: 20, deletions: 10 }],
+    linkedIssues: [],
+    comments: [],
+    changelogEntries: [],
+    ...overrides,
+  };
+}
+
+describe("triage", () => {
+  describe("triagePR", () => {
+    it("should not triage changes to the framework code", () => {
+      expect(triagePR(createPRDetails())).toBeNull();
+    });
+
+    it("should detect docs-only and tests-only PRs", () => {
+      const docs = [{ filename: "guides/source/testing.md", additions: 20, deletions: 10 }];
+      const tests = [
+        { filename: "activerecord/test/cases/base_test.rb", additions: 20, deletions: 10 },
+        { filename: ".github/workflows/ci.yml", additions: 1, deletions: 1 },
+      ];
+
+      expect(triagePR(createPRDetails({ files: docs }))).toBe("docs");
+      expect(triagePR(createPRDetails({ files: tests }))).toBe("tests");
+    });
+
+    it("should detect tiny diffs without a CHANGELOG entry", () => {
+      const tiny = createPRDetails();
+      tiny.pr.additions = 2;
+      tiny.pr.deletions = 1;
+
+      expect(triagePR(tiny)).toBe("tiny");
+      expect(triagePR(tiny, { maxChangedLines: 2 })).toBeNull();
+      expect(
+        triagePR({ ...tiny, changelogEntries: [{ filename: "CHANGELOG.md", text: "* Fix" }] }),
+      ).toBeNull();
+    });
+
+    it("should detect bot authors", () => {
+      expect(triagePR(createPRDetails({}, "dependabot[bot]"))).toBe("bot");
+    });
+
+    it("should never triage deprecations", () => {
+      const files = [
+        {
+          filename: "activesupport/lib/active_support/foo.rb",
+          additions: 1,
+          deletions: 0,
+          patch: '+    ActiveSupport.deprecator.warn("foo is deprecated")',
+        },
+      ];
+      const prData = createPRDetails({ files });
+      prData.pr.additions = 1;
+      prData.pr.deletions = 0;
+
+      expect(triagePR(prData)).toBeNull();
+    });
+  });
+
+  describe("createTemplateSummary", () => {
+    it("should build a summary from the PR", () => {
+      const summary = createTemplateSummary(createPRDetails(), "tiny");
+
+      expect(summary).toMatchObject({
+        overview: "Fix typo (小さな変更のため、AIによる要約は省略しています)",
+        details: "- activerecord/lib/active_record/base.rb (+20/-10)",
+        references: ["https://github.com/rails/rails/pull/1"],
+        codeSamples: [],
+        changeType: "bugfix",
+        breaking: false,
+      });
+    });
+
+    it("should classify docs and tests PRs by their reason", () => {
+      expect(createTemplateSummary(createPRDetails(), "docs").changeType).toBe("docs");
+      expect(createTemplateSummary(createPRDetails(), "tests").changeType).toBe("internal");
+    });
+  });
+
+  describe("createTriageOptions", () => {
+    it("should accept non-negative integers and reject other line counts", () => {
+      expect(createTriageOptions(0)).toEqual({ maxChangedLines: 0 });
+      expect(createTriageOptions(3)).toEqual({ maxChangedLines: 3 });
+      for (const maxChangedLines of [Number.NaN, -1, 2.5]) {
+        expect(() => createTriageOptions(maxChangedLines)).toThrow(
+          `TRIVIAL_PR_MAX_LINES must be a non-negative integer (got ${maxChangedLines})`,
+        );
+      }
+    });
+  });
+
+  describe("parseTrivialPRMode", () => {
+    it("should accept known modes and reject others", () => {
+      expect(parseTrivialPRMode("compact")).toBe("compact");
+      expect(() => parseTrivialPRMode("hide")).toThrow('Unknown TRIVIAL_PR_MODE: "hide"');
+    });
+  });
+});
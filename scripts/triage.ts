@@ -0,0 +1,115 @@
+import {
+  classifyChange,
+  classifyTitle,
+  isBreakingOrDeprecation,
+  isDocsFile,
+  isInternalFile,
+} from "./change-types";
+import type { PRDetails } from "./github-client";
+import type { StructuredSummary } from "./summary-schema";
+
+// Why a PR is not worth a full summary, with its label on the pages
+export const TRIVIAL_REASONS = {
+  docs: "ドキュメントのみの変更",
+  tests: "テスト・CIのみの変更",
+  tiny: "小さな変更",
+  bot: "ボットによる変更",
+} as const;
+
+export type TrivialReason = keyof typeof TRIVIAL_REASONS;
+
+/**
+ * How trivial PRs are handled:
+ * - summarize: no triage, every PR gets a full summary
+ * - template: a short summary built from the PR itself, shown like other entries
+ * - compact: a template summary, listed in "その他の変更" at the bottom of the monthly page
+ * - skip: a template summary that is kept in the store but not published
+ */
+export const TRIVIAL_PR_MODES = ["summarize", "template", "compact", "skip"] as const;
+
+export type TrivialPRMode = (typeof TRIVIAL_PR_MODES)[number];
+
+export interface TriageOptions {
+  // PRs changing at most this many lines (without a CHANGELOG entry) are tiny
+  maxChangedLines: number;
+}
+
+export const DEFAULT_TRIAGE_OPTIONS: TriageOptions = {
+  maxChangedLines: 3,
+};
+
+export function isTrivialPRMode(value: string): value is TrivialPRMode {
+  return (TRIVIAL_PR_MODES as readonly string[]).includes(value);
+}
+
+/**
+ * Validate the TRIVIAL_PR_MODE setting
+ */
+export function parseTrivialPRMode(value: string): TrivialPRMode {
+  if (!isTrivialPRMode(value)) {
+    throw new Error(
+      `Unknown TRIVIAL_PR_MODE: "${value}" (expected one of ${TRIVIAL_PR_MODES.join(", ")})`,
+    );
+  }
+  return value;
+}
+
+/**
+ * Build the triage options from the TRIVIAL_PR_MAX_LINES setting
+ */
+export function createTriageOptions(maxChangedLines: number): TriageOptions {
+  if (!Number.isInteger(maxChangedLines) || maxChangedLines < 0) {
+    throw new Error(`TRIVIAL_PR_MAX_LINES must be a non-negative integer (got ${maxChangedLines})`);
+  }
+  return { maxChangedLines };
+}
+
+/**
+ * Detect PRs that do not need a full summary: bot PRs and PRs that only touch docs,
+ * only touch tests and CI, or change a few lines. Anything that looks like a deprecation
+ * or a breaking change is always summarized, however small.
+ */
+export function triagePR(
+  prData: PRDetails,
+  options: TriageOptions = DEFAULT_TRIAGE_OPTIONS,
+): TrivialReason | null {
+  const { pr, files, changelogEntries } = prData;
+
+  if (isBreakingOrDeprecation(classifyChange(files, changelogEntries, pr.title, ""))) {
+    return null;
+  }
+
+  const filenames = files.map((f) => f.filename ?? "");
+  if (pr.user?.login.endsWith("[bot]")) return "bot";
+  if (filenames.length > 0 && filenames.every(isDocsFile)) return "docs";
+  if (filenames.length > 0 && filenames.every(isInternalFile)) return "tests";
+  if (changelogEntries.length === 0 && pr.additions + pr.deletions <= options.maxChangedLines) {
+    return "tiny";
+  }
+
+  return null;
+}
+
+/**
+ * Build a short summary of a trivial PR from the PR itself, without calling the summarizer
+ */
+export function createTemplateSummary(prData: PRDetails, reason: TrivialReason): StructuredSummary {
+  const { pr, files } = prData;
+
+  return {
+    overview: `${pr.title} (${TRIVIAL_REASONS[reason]}のため、AIによる要約は省略しています)`,
+    details:
+      files
+        .map((f) => `- ${f.filename ?? "unknown"} (+${f.additions}/-${f.deletions})`)
+        .join("\n") || "変更ファイルなし",
+    impact:
+      reason === "docs" || reason === "tests"
+        ? "アプリケーションの挙動に影響する変更は含まれていません。"
+        : "詳細はPRの差分を参照してください。",
+    references: [pr.html_url],
+    codeSamples: [],
+    changeType:
+      reason === "docs" ? "docs" : reason === "tests" ? "internal" : classifyTitle(pr.title),
+    breaking: false,
+  };
+}
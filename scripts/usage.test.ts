@@ -0,0 +1,152 @@
+import { appendFileSync, existsSync, readFileSync } from "node:fs";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  createBudgetCheck,
+  estimateCost,
+  formatUsageSummary,
+  getModelPrice,
+  MODEL_PRICES,
+  UsageLog,
+  UsageTracker,
+} from "./usage";
+
+vi.mock("node:fs");
+
+// $1.25 per 1M prompt tokens, $0.125 cached, $10 completion
+const usage = {
+  prompt_tokens: 1_000_000,
+  completion_tokens: 100_000,
+  prompt_tokens_details: { cached_tokens: 200_000 },
+};
+
+describe("usage", () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  describe("getModelPrice", () => {
+    it("should match dated snapshots by their longest prefix", () => {
+      expect(getModelPrice("gpt-5.1")).toBe(MODEL_PRICES["gpt-5.1"]);
+      expect(getModelPrice("gpt-5.1-2025-11-13")).toBe(MODEL_PRICES["gpt-5.1"]);
+      expect(getModelPrice("gpt-5-mini-2025-08-07")).toBe(MODEL_PRICES["gpt-5-mini"]);
+    });
+
+    it("should return null for unknown models", () => {
+      expect(getModelPrice("llama3.1:8b")).toBeNull();
+      expect(getModelPrice("gpt-5.1x")).toBeNull();
+    });
+  });
+
+  describe("estimateCost", () => {
+    it("should bill cached prompt tokens at the cached input price", () => {
+      const cost = estimateCost(
+        { requests: 1, promptTokens: 1_000_000, cachedTokens: 200_000, completionTokens: 100_000 },
+        MODEL_PRICES["gpt-5.1"],
+      );
+
+      expect(cost).toBeCloseTo(0.8 * 1.25 + 0.2 * 0.125 + 0.1 * 10);
+    });
+  });
+
+  describe("UsageTracker", () => {
+    it("should add up the usage and cost of all responses", () => {
+      const tracker = new UsageTracker();
+
+      tracker.record("gpt-5.1-2025-11-13", usage);
+      tracker.record("gpt-5.1-2025-11-13", usage);
+      tracker.record("gpt-5.1-2025-11-13", undefined);
+
+      expect(tracker.getUsage()).toEqual({
+        requests: 2,
+        promptTokens: 2_000_000,
+        cachedTokens: 400_000,
+        completionTokens: 200_000,
+      });
+      expect(tracker.getCost()).toBeCloseTo(4.05);
+    });
+
+    it("should not count the cost of unknown models", () => {
+      const tracker = new UsageTracker();
+
+      tracker.record("llama3.1:8b", usage);
+
+      expect(tracker.getCost()).toBe(0);
+      expect(tracker.getUnpricedModels()).toEqual(["llama3.1:8b"]);
+    });
+
+    it("should build a log entry", () => {
+      const tracker = new UsageTracker();
+      tracker.record("gpt-5.1", usage);
+
+      const entry = tracker.toLogEntry("collect", new Date("2026-08-10T00:00:00Z"));
+
+      expect(entry).toMatchObject({
+        runAt: "2026-08-10T00:00:00.000Z",
+        command: "collect",
+        models: ["gpt-5.1"],
+        requests: 1,
+      });
+      expect(formatUsageSummary(entry)).toContain("estimated cost: $2.0250");
+    });
+  });
+
+  describe("createBudgetCheck", () => {
+    it("should report the budget as reached once the spend adds up to it", () => {
+      const tracker = new UsageTracker();
+      const isOverBudget = createBudgetCheck(3, 1, tracker);
+
+      expect(isOverBudget()).toBe(false);
+      tracker.record("gpt-5.1", usage);
+      expect(isOverBudget()).toBe(true);
+    });
+
+    it("should never report the budget as reached without a budget", () => {
+      const tracker = new UsageTracker();
+      tracker.record("gpt-5.1", usage);
+
+      expect(createBudgetCheck(undefined, 100, tracker)()).toBe(false);
+    });
+
+    it("should reject budgets that are not a non-negative number", () => {
+      for (const budget of [Number.NaN, Number.POSITIVE_INFINITY, -1]) {
+        expect(() => createBudgetCheck(budget, 0, new UsageTracker())).toThrow(
+          `MONTHLY_BUDGET_USD must be a non-negative number (got ${budget})`,
+        );
+      }
+    });
+  });
+
+  describe("UsageLog", () => {
+    const filePath = "/test/docs/data/usage-log.ndjson";
+
+    it("should add up the cost of the runs in a month", () => {
+      vi.mocked(existsSync).mockReturnValue(true);
+      vi.mocked(readFileSync).mockReturnValue(
+        [
+          JSON.stringify({ runAt: "2026-07-31T12:00:00Z", costUsd: 5 }),
+          JSON.stringify({ runAt: "2026-08-10T12:00:00Z", costUsd: 1.5 }),
+          "{broken",
+          JSON.stringify({ runAt: "2026-08-11T12:00:00Z", costUsd: 0.25 }),
+          "",
+        ].join("\n"),
+      );
+
+      expect(new UsageLog(filePath).getMonthlyCost("2026-08")).toBeCloseTo(1.75);
+    });
+
+    it("should count nothing without a log", () => {
+      vi.mocked(existsSync).mockReturnValue(false);
+
+      expect(new UsageLog(filePath).getMonthlyCost("2026-08")).toBe(0);
+    });
+
+    it("should append an entry as one line", () => {
+      vi.mocked(existsSync).mockReturnValue(true);
+      const entry = new UsageTracker().toLogEntry("collect", new Date("2026-08-10T00:00:00Z"));
+
+      new UsageLog(filePath).append(entry);
+
+      expect(appendFileSync).toHaveBeenCalledWith(filePath, `${JSON.stringify(entry)}\n`, "utf-8");
+    });
+  });
+});
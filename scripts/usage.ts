@@ -0,0 +1,232 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from "node:fs";
+import { dirname } from "node:path";
+import { getMonthKey } from "./formatter";
+
+export interface TokenUsage {
+  requests: number;
+  // Prompt tokens include the cached ones
+  promptTokens: number;
+  cachedTokens: number;
+  completionTokens: number;
+}
+
+// Usage as reported in a chat completion response
+export interface CompletionUsageLike {
+  prompt_tokens: number;
+  completion_tokens: number;
+  prompt_tokens_details?: { cached_tokens?: number };
+}
+
+// USD per 1M tokens
+export interface ModelPrice {
+  input: number;
+  cachedInput: number;
+  output: number;
+}
+
+// Standard API prices. Responses name dated snapshots (e.g., gpt-5.1-2025-11-13),
+// so models are matched by their longest listed prefix.
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+  "gpt-5.1": { input: 1.25, cachedInput: 0.125, output: 10 },
+  "gpt-5": { input: 1.25, cachedInput: 0.125, output: 10 },
+  "gpt-5-mini": { input: 0.25, cachedInput: 0.025, output: 2 },
+  "gpt-5-nano": { input: 0.05, cachedInput: 0.005, output: 0.4 },
+  "gpt-4.1": { input: 2, cachedInput: 0.5, output: 8 },
+  "gpt-4.1-mini": { input: 0.4, cachedInput: 0.1, output: 1.6 },
+  "gpt-4o": { input: 2.5, cachedInput: 1.25, output: 10 },
+  "gpt-4o-mini": { input: 0.15, cachedInput: 0.075, output: 0.6 },
+};
+
+export interface UsageLogEntry extends TokenUsage {
+  runAt: string;
+  // Script that made the requests, e.g., collect
+  command: string;
+  models: string[];
+  // Cost of the models with a known price
+  costUsd: number;
+}
+
+function emptyUsage(): TokenUsage {
+  return { requests: 0, promptTokens: 0, cachedTokens: 0, completionTokens: 0 };
+}
+
+/**
+ * Find the price of a model by its longest matching prefix, or null for unknown models
+ * (e.g., models served by a local OpenAI-compatible server)
+ */
+export function getModelPrice(model: string): ModelPrice | null {
+  const prefix = Object.keys(MODEL_PRICES)
+    .filter((name) => model === name || model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? MODEL_PRICES[prefix] : null;
+}
+
+/**
+ * Cost of token usage in USD. Cached prompt tokens are billed at the cached input price.
+ */
+export function estimateCost(usage: TokenUsage, price: ModelPrice): number {
+  return (
+    ((usage.promptTokens - usage.cachedTokens) * price.input +
+      usage.cachedTokens * price.cachedInput +
+      usage.completionTokens * price.output) /
+    1_000_000
+  );
+}
+
+/**
+ * Token usage of the summarizer requests in a run, per model
+ */
+export class UsageTracker {
+  private usageByModel = new Map<string, TokenUsage>();
+
+  /**
+   * Record the usage of a response (servers that do not report usage are ignored)
+   */
+  record(model: string, usage: CompletionUsageLike | null | undefined): void {
+    if (!usage) return;
+
+    const total = this.usageByModel.get(model) ?? emptyUsage();
+    total.requests++;
+    total.promptTokens += usage.prompt_tokens;
+    total.cachedTokens += usage.prompt_tokens_details?.cached_tokens ?? 0;
+    total.completionTokens += usage.completion_tokens;
+    this.usageByModel.set(model, total);
+  }
+
+  /**
+   * Usage of all models
+   */
+  getUsage(): TokenUsage {
+    const total = emptyUsage();
+    for (const usage of this.usageByModel.values()) {
+      total.requests += usage.requests;
+      total.promptTokens += usage.promptTokens;
+      total.cachedTokens += usage.cachedTokens;
+      total.completionTokens += usage.completionTokens;
+    }
+    return total;
+  }
+
+  /**
+   * Cost in USD of the models with a known price
+   */
+  getCost(): number {
+    let cost = 0;
+    for (const [model, usage] of this.usageByModel) {
+      const price = getModelPrice(model);
+      if (price) cost += estimateCost(usage, price);
+    }
+    return cost;
+  }
+
+  /**
+   * Models used without a known price (their cost is not counted)
+   */
+  getUnpricedModels(): string[] {
+    return Array.from(this.usageByModel.keys()).filter((model) => !getModelPrice(model));
+  }
+
+  /**
+   * Build the usage log entry of the run
+   */
+  toLogEntry(command: string, runAt = new Date()): UsageLogEntry {
+    return {
+      runAt: runAt.toISOString(),
+      command,
+      models: Array.from(this.usageByModel.keys()).sort(),
+      ...this.getUsage(),
+      costUsd: this.getCost(),
+    };
+  }
+}
+
+/**
+ * Build the budget check of a run: true once the spend of earlier runs this month plus
+ * the cost of this run reaches the budget. Without a budget it is always false.
+ * Throws for budgets that are not a non-negative number (e.g., a "$20" setting).
+ */
+export function createBudgetCheck(
+  budgetUsd: number | undefined,
+  spentUsd: number,
+  tracker: UsageTracker,
+): () => boolean {
+  if (budgetUsd !== undefined && !(Number.isFinite(budgetUsd) && budgetUsd >= 0)) {
+    throw new Error(`MONTHLY_BUDGET_USD must be a non-negative number (got ${budgetUsd})`);
+  }
+
+  let reached = false;
+  return () => {
+    if (budgetUsd === undefined) return false;
+    if (!reached && spentUsd + tracker.getCost() >= budgetUsd) {
+      reached = true;
+      console.warn(
+        `Monthly budget of $${budgetUsd.toFixed(2)} reached, remaining PRs are deferred to a later run`,
+      );
+    }
+    return reached;
+  };
+}
+
+/**
+ * Format a usage log entry for the end-of-run report
+ */
+export function formatUsageSummary(entry: UsageLogEntry): string {
+  const models = entry.models.length > 0 ? entry.models.join(", ") : "none";
+  return [
+    `Summarizer usage (${models}): ${entry.requests} requests`,
+    `  prompt tokens: ${entry.promptTokens} (cached: ${entry.cachedTokens})`,
+    `  completion tokens: ${entry.completionTokens}`,
+    `  estimated cost: $${entry.costUsd.toFixed(4)}`,
+  ].join("\n");
+}
+
+/**
+ * Append-only log of the usage of each run (NDJSON, one line per run),
+ * used to add up the spend of the month for the budget cap
+ */
+export class UsageLog {
+  private filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  /**
+   * Read all entries, skipping lines that cannot be parsed
+   */
+  read(): UsageLogEntry[] {
+    if (!existsSync(this.filePath)) {
+      return [];
+    }
+
+    return readFileSync(this.filePath, "utf-8")
+      .split("\n")
+      .filter((line) => line.trim() !== "")
+      .flatMap((line) => {
+        try {
+          return [JSON.parse(line) as UsageLogEntry];
+        } catch {
+          console.warn(`Skipping unreadable usage log line: ${line}`);
+          return [];
+        }
+      });
+  }
+
+  /**
+   * Total cost in USD of the runs in the given month (YYYY-MM)
+   */
+  getMonthlyCost(monthKey: string): number {
+    return this.read()
+      .filter((entry) => getMonthKey(new Date(entry.runAt)) === monthKey)
+      .reduce((sum, entry) => sum + entry.costUsd, 0);
+  }
+
+  append(entry: UsageLogEntry): void {
+    const dir = dirname(this.filePath);
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+
+    appendFileSync(this.filePath, `${JSON.stringify(entry)}\n`, "utf-8");
+  }
+}
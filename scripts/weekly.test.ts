@@ -0,0 +1,184 @@
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { PRStore } from "./pr-store";
+import type { Summarizer } from "./summarizer";
+import { createRecord } from "./test-fixtures";
+import { getWeeksOfMonths, toWeeklyPR, updateWeeklyOverviews, WeeklyOverviewStore } from "./weekly";
+
+vi.mock("node:fs");
+
+function createSummarizer(): Summarizer & { summarizeWeek: ReturnType<typeof vi.fn> } {
+  return {
+    summarizePR: vi.fn(),
+    summarizeWeek: vi.fn().mockResolvedValue({ ok: true, overview: "- 注目の変更 (#1)" }),
+  };
+}
+
+describe("weekly", () => {
+  const filePath = "/test/docs/data/weekly-overviews.json";
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  describe("toWeeklyPR", () => {
+    it("should use the overview of structured summaries", () => {
+      const summary = {
+        overview: "概要",
+        details: "詳細",
+        impact: "影響",
+        references: [],
+        codeSamples: [],
+        changeType: "feature" as const,
+        breaking: true,
+      };
+
+      expect(
+        toWeeklyPR(createRecord({ number: 1, summary, changeType: "removal", breaking: true })),
+      ).toEqual({
+        number: 1,
+        title: "Test PR",
+        changeType: "removal",
+        breaking: true,
+        overview: "概要",
+      });
+    });
+
+    it("should use the first text line of plain Markdown summaries", () => {
+      const record = createRecord({ summary: "### 概要\n\nレガシーな要約\n\n### 詳細\n..." });
+
+      expect(toWeeklyPR(record).overview).toBe("レガシーな要約");
+    });
+  });
+
+  describe("getWeeksOfMonths", () => {
+    it("should return the weeks of the records of the months, including partial weeks", () => {
+      const store = new PRStore("/test/docs/data/prs");
+      store.upsert(createRecord({ number: 1, mergedAt: "2026-07-27T10:00:00Z" }));
+      store.upsert(createRecord({ number: 2, mergedAt: "2026-08-01T10:00:00Z" }));
+      store.upsert(createRecord({ number: 3, mergedAt: "2026-08-10T10:00:00Z" }));
+
+      expect(getWeeksOfMonths(store, ["2026-08"])).toEqual(["2026-W33", "2026-W31"]);
+    });
+  });
+
+  describe("WeeklyOverviewStore", () => {
+    it("should start empty when the file is missing", () => {
+      vi.mocked(existsSync).mockReturnValue(false);
+      const overviews = new WeeklyOverviewStore(filePath);
+
+      overviews.load();
+
+      expect(overviews.get("2026-W33")).toBeUndefined();
+    });
+
+    it("should start empty when the file is unreadable", () => {
+      vi.mocked(existsSync).mockReturnValue(true);
+      vi.mocked(readFileSync).mockReturnValue("not json");
+      const overviews = new WeeklyOverviewStore(filePath);
+
+      overviews.load();
+
+      expect(overviews.get("2026-W33")).toBeUndefined();
+    });
+
+    it("should tell whether an overview was written from the same PRs", () => {
+      const overviews = new WeeklyOverviewStore(filePath);
+      overviews.set("2026-W33", [3, 1], "- overview");
+
+      expect(overviews.isCurrent("2026-W33", [1, 3])).toBe(true);
+      expect(overviews.isCurrent("2026-W33", [1, 3, 4])).toBe(false);
+      expect(overviews.isCurrent("2026-W34", [5])).toBe(false);
+    });
+
+    it("should save overviews oldest week first and load them back", () => {
+      vi.mocked(existsSync).mockReturnValue(true);
+      const overviews = new WeeklyOverviewStore(filePath);
+      overviews.set("2026-W33", [2], "- newer");
+      overviews.set("2026-W32", [1], "- older");
+
+      overviews.save();
+
+      const [savedPath, content] = vi.mocked(writeFileSync).mock.calls[0];
+      expect(savedPath).toBe(filePath);
+      expect(Object.keys(JSON.parse(content as string))).toEqual(["2026-W32", "2026-W33"]);
+
+      vi.mocked(readFileSync).mockReturnValue(content as string);
+      const loaded = new WeeklyOverviewStore(filePath);
+      loaded.load();
+      expect(loaded.get("2026-W33")).toEqual(expect.objectContaining({ overview: "- newer" }));
+    });
+  });
+
+  describe("updateWeeklyOverviews", () => {
+    let store: PRStore;
+    let overviews: WeeklyOverviewStore;
+
+    beforeEach(() => {
+      store = new PRStore("/test/docs/data/prs");
+      store.upsert(createRecord({ number: 1, mergedAt: "2026-08-10T10:00:00Z" }));
+      store.upsert(
+        createRecord({ number: 2, mergedAt: "2026-08-11T10:00:00Z", changeType: "feature" }),
+      );
+      store.upsert(createRecord({ number: 3, mergedAt: "2026-08-12T10:00:00Z", trivial: "docs" }));
+      overviews = new WeeklyOverviewStore(filePath);
+    });
+
+    it("should summarize the notable PRs of weeks without a current overview", async () => {
+      const summarizer = createSummarizer();
+
+      const updated = await updateWeeklyOverviews(["2026-W33"], store, overviews, summarizer);
+
+      expect(updated).toEqual(["2026-W33"]);
+      expect(summarizer.summarizeWeek).toHaveBeenCalledWith("2026-W33", [
+        expect.objectContaining({ number: 2, changeType: "feature" }),
+        expect.objectContaining({ number: 1 }),
+      ]);
+      expect(overviews.get("2026-W33")).toEqual(
+        expect.objectContaining({ prNumbers: [1, 2], overview: "- 注目の変更 (#1)" }),
+      );
+    });
+
+    it("should skip weeks whose overview covers the same PRs, and weeks without notable PRs", async () => {
+      overviews.set("2026-W33", [1, 2], "- existing");
+      store.upsert(createRecord({ number: 4, mergedAt: "2026-08-17T10:00:00Z", trivial: "bot" }));
+      const summarizer = createSummarizer();
+
+      const updated = await updateWeeklyOverviews(
+        ["2026-W34", "2026-W33"],
+        store,
+        overviews,
+        summarizer,
+      );
+
+      expect(updated).toEqual([]);
+      expect(summarizer.summarizeWeek).not.toHaveBeenCalled();
+    });
+
+    it("should keep the previous overview when summarizing fails", async () => {
+      overviews.set("2026-W33", [1], "- existing");
+      const summarizer = createSummarizer();
+      summarizer.summarizeWeek.mockResolvedValue({ ok: false, error: "rate limited" });
+
+      const updated = await updateWeeklyOverviews(["2026-W33"], store, overviews, summarizer);
+
+      expect(updated).toEqual([]);
+      expect(overviews.get("2026-W33")?.overview).toBe("- existing");
+    });
+
+    it("should stop once over budget", async () => {
+      const summarizer = createSummarizer();
+
+      const updated = await updateWeeklyOverviews(
+        ["2026-W33"],
+        store,
+        overviews,
+        summarizer,
+        () => true,
+      );
+
+      expect(updated).toEqual([]);
+      expect(summarizer.summarizeWeek).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,160 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname } from "node:path";
+import { getWeekKey } from "./formatter";
+import type { PRStore, StoredPR } from "./pr-store";
+import type { Summarizer, WeeklyPR } from "./summarizer";
+
+export interface WeeklyOverview {
+  // PRs the overview was written from, in ascending order. A different set makes it outdated.
+  prNumbers: number[];
+  overview: string;
+  generatedAt: string;
+}
+
+/**
+ * The PRs an overview is written from: trivial PRs are never notable
+ */
+export function getNotableRecords(records: StoredPR[]): StoredPR[] {
+  return records.filter((record) => record.trivial === null);
+}
+
+/**
+ * Convert a store record into the input of the weekly overview
+ */
+export function toWeeklyPR(record: StoredPR): WeeklyPR {
+  return {
+    number: record.number,
+    title: record.title,
+    changeType: record.changeType,
+    breaking: record.breaking,
+    // Plain Markdown summaries (from older pages) have no overview: use their first text line
+    overview:
+      typeof record.summary === "string"
+        ? (record.summary
+            .split("\n")
+            .map((line) => line.trim())
+            .find((line) => line !== "" && !line.startsWith("#")) ?? "")
+        : record.summary.overview,
+  };
+}
+
+/**
+ * Get the weeks (YYYY-Www) that have records merged in the given months (YYYY-MM), newest first.
+ * Weeks spanning two months are included from either side.
+ */
+export function getWeeksOfMonths(store: PRStore, monthKeys: string[]): string[] {
+  const weeks = new Set(
+    monthKeys.flatMap((monthKey) =>
+      store.getMonth(monthKey).map((record) => getWeekKey(new Date(record.mergedAt))),
+    ),
+  );
+  return Array.from(weeks).sort().reverse();
+}
+
+/**
+ * LLM-written overviews of the weekly pages, keyed by week (YYYY-Www).
+ * Kept as a JSON file so that re-rendering the pages does not call the model again.
+ */
+export class WeeklyOverviewStore {
+  private filePath: string;
+  private overviews = new Map<string, WeeklyOverview>();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  /**
+   * Load the overviews, or start empty when the file is missing or unreadable
+   */
+  load(): void {
+    this.overviews.clear();
+
+    if (!existsSync(this.filePath)) {
+      return;
+    }
+
+    try {
+      const overviews = JSON.parse(readFileSync(this.filePath, "utf-8")) as Record<
+        string,
+        WeeklyOverview
+      >;
+      for (const [weekKey, overview] of Object.entries(overviews)) {
+        this.overviews.set(weekKey, overview);
+      }
+    } catch (error) {
+      console.warn("Failed to read weekly overviews, starting empty:", error);
+    }
+  }
+
+  get(weekKey: string): WeeklyOverview | undefined {
+    return this.overviews.get(weekKey);
+  }
+
+  /**
+   * Whether the week has an overview written from exactly these PRs
+   */
+  isCurrent(weekKey: string, prNumbers: number[]): boolean {
+    const existing = this.overviews.get(weekKey)?.prNumbers ?? [];
+    const sorted = [...prNumbers].sort((a, b) => a - b);
+    return existing.length === sorted.length && existing.every((n, i) => n === sorted[i]);
+  }
+
+  set(weekKey: string, prNumbers: number[], overview: string): void {
+    this.overviews.set(weekKey, {
+      prNumbers: [...prNumbers].sort((a, b) => a - b),
+      overview,
+      generatedAt: new Date().toISOString(),
+    });
+  }
+
+  save(): void {
+    const dir = dirname(this.filePath);
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+
+    // Oldest week first, so new weeks are appended to the file
+    const data = Object.fromEntries(
+      Array.from(this.overviews).sort(([a], [b]) => a.localeCompare(b)),
+    );
+    writeFileSync(this.filePath, `${JSON.stringify(data, null, 2)}\n`, "utf-8");
+  }
+}
+
+/**
+ * Write the overviews of the given weeks whose notable PRs changed since their overview.
+ * Weeks that fail keep their previous overview; once over budget, the rest are left for a later run.
+ * Returns the weeks that got a new overview.
+ */
+export async function updateWeeklyOverviews(
+  weekKeys: string[],
+  store: PRStore,
+  overviews: WeeklyOverviewStore,
+  summarizer: Summarizer,
+  isOverBudget: () => boolean = () => false,
+): Promise<string[]> {
+  const updated: string[] = [];
+
+  for (const weekKey of weekKeys) {
+    const records = getNotableRecords(store.getWeek(weekKey));
+    const prNumbers = records.map((record) => record.number);
+    if (records.length === 0 || overviews.isCurrent(weekKey, prNumbers)) continue;
+
+    if (isOverBudget()) {
+      console.warn(`Skipping the overview of week ${weekKey}: monthly budget reached`);
+      break;
+    }
+
+    console.log(`Summarizing week ${weekKey} (${records.length} PRs)`);
+    const result = await summarizer.summarizeWeek(weekKey, records.map(toWeeklyPR));
+    if (!result.ok) {
+      console.warn(`Keeping the previous overview of week ${weekKey}: ${result.error}`);
+      continue;
+    }
+
+    overviews.set(weekKey, prNumbers, result.overview);
+    updated.push(weekKey);
+  }
+
+  return updated;
+}
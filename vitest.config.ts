@@ -16,6 +16,7 @@ export default defineConfig({
         "docs/**",
         "**/*.config.{js,ts}",
         "**/*.test.{js,ts}",
+        "scripts/test-fixtures.ts",
         ".github/**",
       ],
     },